@@ -11,7 +11,11 @@ type ExtensionPreferences = {
   /** Show Drive Status - Display connection status indicators for each drive */
   "showDriveStatus": boolean,
   /** Maximum Results - Maximum number of search results to display */
-  "maxResults": string
+  "maxResults": string,
+  /** DriveBuddy Data Folder - Folder containing SearchIndexes and click-history.json, e.g. a synced team catalog. Leave empty to use DriveBuddy's own data. */
+  "dataDirectory"?: string,
+  /** Scans to Keep - Number of past scans kept per drive in Index History */
+  "snapshotRetention": string
 }
 
 /** Preferences accessible in all the extension's commands */
@@ -19,11 +23,52 @@ declare type Preferences = ExtensionPreferences
 
 declare namespace Preferences {
   /** Preferences accessible in the `search` command */
-  export type Search = ExtensionPreferences & {}
+  export type Search = ExtensionPreferences & {
+  /** Recently Opened Boost - Points (out of 100) that files you open often and recently can gain over equally good matches. 0 turns the boost off. */
+  "frecencyWeight": string
+}
+  /** Preferences accessible in the `browse` command */
+  export type Browse = ExtensionPreferences & {}
+  /** Preferences accessible in the `drives` command */
+  export type Drives = ExtensionPreferences & {
+  /** Stale Index Threshold (Days) - Flag drives whose index is older than this many days */
+  "staleIndexDays": string
+}
+  /** Preferences accessible in the `duplicates` command */
+  export type Duplicates = ExtensionPreferences & {}
+  /** Preferences accessible in the `compare` command */
+  export type Compare = ExtensionPreferences & {}
+  /** Preferences accessible in the `history` command */
+  export type History = ExtensionPreferences & {}
+  /** Preferences accessible in the `menubar` command */
+  export type Menubar = ExtensionPreferences & {}
+  /** Preferences accessible in the `queue` command */
+  export type Queue = ExtensionPreferences & {}
+  /** Preferences accessible in the `retrieve` command */
+  export type Retrieve = ExtensionPreferences & {
+  /** Retrieval Folder - Copy requested files here when their drive connects. Leave empty to only be notified. */
+  "retrievalFolder"?: string
+}
 }
 
 declare namespace Arguments {
   /** Arguments passed to the `search` command */
   export type Search = {}
+  /** Arguments passed to the `browse` command */
+  export type Browse = {}
+  /** Arguments passed to the `drives` command */
+  export type Drives = {}
+  /** Arguments passed to the `duplicates` command */
+  export type Duplicates = {}
+  /** Arguments passed to the `compare` command */
+  export type Compare = {}
+  /** Arguments passed to the `history` command */
+  export type History = {}
+  /** Arguments passed to the `menubar` command */
+  export type Menubar = {}
+  /** Arguments passed to the `queue` command */
+  export type Queue = {}
+  /** Arguments passed to the `retrieve` command */
+  export type Retrieve = {}
 }
 
@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from "react";
+import { List, Action, ActionPanel, Icon, Color, showToast, Toast } from "@raycast/api";
+import { DriveInfo, loadDriveInfo, isDriveMounted, findIndexFile } from "./drivebuddy";
+import { FolderNode, findFolder, listFolder, loadFolderTree } from "./folderTree";
+import { FileActions } from "./fileActions";
+import { FavoriteActions } from "./favoriteActions";
+import { findFavorite, loadFavorites } from "./favorites";
+import { configureDataSource } from "./preferences";
+
+/**
+ * Lists indexed drives; each one opens its folder tree
+ */
+export default function Command() {
+  configureDataSource();
+
+  const drives = Array.from(loadDriveInfo().values()).sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <List searchBarPlaceholder="Filter drives...">
+      {drives.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.HardDrive}
+          title="No Drives Found"
+          description="Connect a drive and scan it in DriveBuddy to browse it here"
+        />
+      ) : (
+        drives.map((drive) => {
+          const mounted = isDriveMounted(drive.volumeUUID);
+          const indexed = findIndexFile(drive.volumeUUID) !== null;
+
+          return (
+            <List.Item
+              key={drive.volumeUUID}
+              title={drive.name}
+              subtitle={indexed ? undefined : "Not indexed"}
+              icon={{ source: Icon.HardDrive, tintColor: mounted ? Color.Green : Color.SecondaryText }}
+              accessories={[
+                {
+                  icon: {
+                    source: mounted ? Icon.CircleFilled : Icon.Circle,
+                    tintColor: mounted ? Color.Green : Color.SecondaryText,
+                  },
+                  tooltip: mounted ? "Drive Connected" : "Drive Offline",
+                },
+              ]}
+              actions={
+                indexed ? (
+                  <ActionPanel>
+                    <Action.Push title="Browse Drive" icon={Icon.ArrowRight} target={<FolderList drive={drive} />} />
+                  </ActionPanel>
+                ) : undefined
+              }
+            />
+          );
+        })
+      )}
+    </List>
+  );
+}
+
+interface FolderListProps {
+  drive: DriveInfo;
+  relativePath?: string;
+}
+
+/**
+ * Contents of one folder on a drive, read from its index
+ */
+function FolderList({ drive, relativePath = "" }: FolderListProps) {
+  const [folder, setFolder] = useState<FolderNode | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [favorites, setFavorites] = useState(() => loadFavorites());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadFolderTree(drive.volumeUUID)
+      .then((tree) => {
+        if (!cancelled) {
+          setFolder(tree ? findFolder(tree, relativePath) : null);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load folder tree:", error);
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to Read Index",
+          message: String(error),
+        });
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [drive.volumeUUID, relativePath]);
+
+  // Breadcrumb from the drive root down to this folder
+  const breadcrumb = [drive.name, ...relativePath.split("/").filter((segment) => segment.length > 0)].join(" › ");
+  const contents = folder ? listFolder(folder) : { folders: [], files: [] };
+  const refreshFavorites = () => setFavorites(loadFavorites());
+
+  return (
+    <List isLoading={isLoading} navigationTitle={breadcrumb} searchBarPlaceholder={`Filter ${breadcrumb}...`}>
+      {!isLoading && !folder ? (
+        <List.EmptyView
+          icon={{ source: Icon.ExclamationMark, tintColor: Color.Red }}
+          title="Folder Not Found"
+          description={`${breadcrumb} is not in the drive's index`}
+        />
+      ) : !isLoading && contents.folders.length === 0 && contents.files.length === 0 ? (
+        <List.EmptyView icon={Icon.Folder} title="Empty Folder" description={breadcrumb} />
+      ) : (
+        <List.Section title={breadcrumb} subtitle={`${contents.folders.length + contents.files.length} items`}>
+          {contents.folders.map((child) => {
+            const itemCount = child.folders.size + child.files.length;
+
+            return (
+              <List.Item
+                key={`folder-${child.relativePath}`}
+                title={child.name}
+                icon={{ source: Icon.Folder, tintColor: Color.Blue }}
+                accessories={[
+                  {
+                    text: `${itemCount} ${itemCount === 1 ? "item" : "items"}`,
+                    tooltip: `${child.totalFiles} ${child.totalFiles === 1 ? "file" : "files"} in total`,
+                  },
+                ]}
+                actions={
+                  <ActionPanel>
+                    <Action.Push
+                      title="Open Folder"
+                      icon={Icon.ArrowRight}
+                      target={<FolderList drive={drive} relativePath={child.relativePath} />}
+                    />
+                    <FileActions
+                      driveUUID={drive.volumeUUID}
+                      driveName={drive.name}
+                      entry={{ name: child.name, relativePath: child.relativePath }}
+                      kind="folder"
+                    />
+                    <FavoriteActions
+                      driveUUID={drive.volumeUUID}
+                      entry={{ name: child.name, relativePath: child.relativePath }}
+                      kind="folder"
+                      favorite={findFavorite(favorites, drive.volumeUUID, child.relativePath)}
+                      onChange={refreshFavorites}
+                    />
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+          {contents.files.map((entry) => (
+            <List.Item
+              key={`file-${entry.relativePath}`}
+              title={entry.name}
+              icon={{ source: Icon.Document, tintColor: Color.Blue }}
+              actions={
+                <ActionPanel>
+                  <FileActions driveUUID={drive.volumeUUID} driveName={drive.name} entry={entry} />
+                  <FavoriteActions
+                    driveUUID={drive.volumeUUID}
+                    entry={entry}
+                    favorite={findFavorite(favorites, drive.volumeUUID, entry.relativePath)}
+                    onChange={refreshFavorites}
+                  />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      )}
+    </List>
+  );
+}
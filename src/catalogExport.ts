@@ -0,0 +1,277 @@
+import { createWriteStream, WriteStream } from "fs";
+import { once } from "events";
+import { EntryKind, SearchResult, findIndexFile, getDriveRoot, loadDriveInfo } from "./drivebuddy";
+import { getEntryKind, getSearchCache } from "./searchCache";
+import { DriveBuddyDataSource, getDataSource } from "./dataSource";
+import { escapeCsv, escapeMarkdown } from "./format";
+
+export type ExportFormat = "csv" | "json" | "markdown";
+
+export const EXPORT_FORMATS: { format: ExportFormat; title: string; extension: string }[] = [
+  { format: "csv", title: "CSV", extension: "csv" },
+  { format: "json", title: "JSON", extension: "json" },
+  { format: "markdown", title: "Markdown Tree", extension: "md" },
+];
+
+/**
+ * One exported entry; catalogs have no match score
+ */
+export interface ExportRow {
+  driveName: string;
+  driveUUID: string;
+  relativePath: string;
+  fullPath: string;
+  kind: EntryKind;
+  matchScore?: number;
+}
+
+export interface ExportOptions {
+  /**
+   * Heading of the Markdown tree
+   */
+  title?: string;
+  /**
+   * Called with the number of rows written so far, every few thousand rows
+   */
+  onProgress?: (rows: number) => void;
+  signal?: AbortSignal;
+  source?: DriveBuddyDataSource;
+}
+
+const PROGRESS_INTERVAL = 10000;
+
+/**
+ * Turns rows into the text of one export format, a row at a time
+ */
+interface FormatWriter {
+  begin(): string;
+  row(row: ExportRow): string;
+  end(): string;
+}
+
+function createCsvWriter(): FormatWriter {
+  return {
+    begin: () => ["Drive", "Volume UUID", "Relative Path", "Full Path", "Kind", "Match Score"].join(",") + "\n",
+    row: (row) =>
+      [row.driveName, row.driveUUID, row.relativePath, row.fullPath, row.kind, formatScore(row.matchScore)]
+        .map(escapeCsv)
+        .join(",") + "\n",
+    end: () => "",
+  };
+}
+
+function createJsonWriter(): FormatWriter {
+  let first = true;
+  return {
+    begin: () => "[",
+    row: (row) => {
+      const json = JSON.stringify({ ...row, matchScore: formatScore(row.matchScore) ?? null });
+      const separator = first ? "\n  " : ",\n  ";
+      first = false;
+      return separator + json;
+    },
+    end: () => (first ? "]\n" : "\n]\n"),
+  };
+}
+
+/**
+ * Nested list of folders per drive; rows must arrive grouped by drive and in tree order
+ */
+function createMarkdownWriter(title: string): FormatWriter {
+  let driveUUID: string | null = null;
+  // Folders of the current branch that have been written already
+  let openFolders: string[] = [];
+
+  return {
+    begin: () => `# ${escapeMarkdown(title)}\n`,
+    row: (row) => {
+      let text = "";
+      if (row.driveUUID !== driveUUID) {
+        driveUUID = row.driveUUID;
+        openFolders = [];
+        text += `\n## ${escapeMarkdown(row.driveName)}\n\n\`${row.driveUUID}\`\n\n`;
+      }
+
+      const segments = row.relativePath.split("/");
+      const name = segments.pop()!;
+
+      let common = 0;
+      while (common < segments.length && common < openFolders.length && segments[common] === openFolders[common]) {
+        common++;
+      }
+      openFolders = openFolders.slice(0, common);
+      for (let depth = common; depth < segments.length; depth++) {
+        text += `${"  ".repeat(depth)}- **${escapeMarkdown(segments[depth])}/**\n`;
+        openFolders.push(segments[depth]);
+      }
+
+      const indent = "  ".repeat(segments.length);
+      if (row.kind === "folder") {
+        text += `${indent}- **${escapeMarkdown(name)}/**\n`;
+        openFolders.push(name);
+      } else {
+        const score = row.matchScore === undefined ? "" : ` (${formatScore(row.matchScore)})`;
+        text += `${indent}- ${escapeMarkdown(name)}${score}\n`;
+      }
+      return text;
+    },
+    end: () => "",
+  };
+}
+
+function formatScore(score: number | undefined): number | undefined {
+  return score === undefined ? undefined : Math.round(score * 10) / 10;
+}
+
+function createFormatWriter(format: ExportFormat, title: string): FormatWriter {
+  switch (format) {
+    case "csv":
+      return createCsvWriter();
+    case "json":
+      return createJsonWriter();
+    case "markdown":
+      return createMarkdownWriter(title);
+  }
+}
+
+/**
+ * Orders paths so every folder comes directly before its contents
+ * Plain string order would put "Projects-old" between "Projects" and "Projects/a".
+ */
+export function compareTreePaths(a: string, b: string): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const ca = a.charCodeAt(i);
+    const cb = b.charCodeAt(i);
+    if (ca !== cb) {
+      if (ca === 47) return -1; // "/"
+      if (cb === 47) return 1;
+      return ca - cb;
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Writes rows to a file as they are produced, waiting whenever the disk falls behind
+ */
+async function writeRows(
+  path: string,
+  format: ExportFormat,
+  rows: Iterable<ExportRow>,
+  options: ExportOptions
+): Promise<number> {
+  const { title = "DriveBuddy Export", onProgress, signal } = options;
+  const writer = createFormatWriter(format, title);
+  const stream: WriteStream = createWriteStream(path, { encoding: "utf8" });
+  const write = async (text: string) => {
+    if (text && !stream.write(text)) {
+      await once(stream, "drain");
+    }
+  };
+
+  let count = 0;
+  try {
+    await write(writer.begin());
+    for (const row of rows) {
+      await write(writer.row(row));
+      if (++count % PROGRESS_INTERVAL === 0) {
+        signal?.throwIfAborted();
+        onProgress?.(count);
+      }
+    }
+    await write(writer.end());
+  } catch (error) {
+    stream.destroy();
+    throw error;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    stream.once("error", reject);
+    stream.end(resolve);
+  });
+  onProgress?.(count);
+  return count;
+}
+
+/**
+ * Exports search results; the Markdown tree groups them by drive and folder,
+ * the other formats keep their ranking
+ */
+export async function exportSearchResults(
+  results: SearchResult[],
+  path: string,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<number> {
+  const { source = getDataSource() } = options;
+  const ordered =
+    format === "markdown"
+      ? [...results].sort(
+          (a, b) =>
+            a.driveName.localeCompare(b.driveName) ||
+            a.driveUUID.localeCompare(b.driveUUID) ||
+            compareTreePaths(a.entry.relativePath, b.entry.relativePath)
+        )
+      : results;
+
+  const roots = new Map<string, string>();
+  const rows = ordered.map((result) => {
+    if (!roots.has(result.driveUUID)) {
+      roots.set(result.driveUUID, getDriveRoot(result.driveUUID, source));
+    }
+    return {
+      driveName: result.driveName,
+      driveUUID: result.driveUUID,
+      relativePath: result.entry.relativePath,
+      fullPath: `${roots.get(result.driveUUID)}/${result.entry.relativePath}`,
+      kind: result.kind,
+      matchScore: result.matchScore,
+    };
+  });
+
+  return writeRows(path, format, rows, { title: "DriveBuddy Search Results", ...options });
+}
+
+/**
+ * Exports every entry in a drive's index, read from its search cache
+ * Rows are generated as they are written, so even very large catalogs never
+ * exist in memory as text; only the Markdown tree needs an id array to sort.
+ * The whole search cache is loaded first, though, so memory use still grows
+ * with the drive's entry count, as it does when searching.
+ */
+export async function exportDriveCatalog(
+  driveUUID: string,
+  path: string,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<number> {
+  const { source = getDataSource() } = options;
+  const indexFile = findIndexFile(driveUUID, source);
+  if (!indexFile) {
+    throw new Error(`No index found for drive ${driveUUID}`);
+  }
+
+  const cache = await getSearchCache(source, indexFile);
+  const driveName = loadDriveInfo(source).get(driveUUID)?.name || "Unknown Drive";
+  const root = getDriveRoot(driveUUID, source);
+
+  let ids: Iterable<number> = cache.names.keys();
+  if (format === "markdown") {
+    ids = Uint32Array.from(cache.names.keys()).sort((a, b) => compareTreePaths(cache.paths[a], cache.paths[b]));
+  }
+
+  function* rows(): Generator<ExportRow> {
+    for (const id of ids) {
+      yield {
+        driveName,
+        driveUUID,
+        relativePath: cache.paths[id],
+        fullPath: `${root}/${cache.paths[id]}`,
+        kind: getEntryKind(cache, id),
+      };
+    }
+  }
+
+  return writeRows(path, format, rows(), { title: driveName, ...options });
+}
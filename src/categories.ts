@@ -0,0 +1,51 @@
+import { getExtension } from "./query";
+
+/**
+ * File-type categories, assigned by extension
+ */
+export type FileCategory = "video" | "audio" | "image" | "document" | "archive" | "project" | "other";
+
+export const FILE_CATEGORIES: { category: FileCategory; title: string }[] = [
+  { category: "video", title: "Video" },
+  { category: "audio", title: "Audio" },
+  { category: "image", title: "Image" },
+  { category: "document", title: "Document" },
+  { category: "archive", title: "Archive" },
+  { category: "project", title: "Project/Code" },
+  { category: "other", title: "Other" },
+];
+
+const EXTENSIONS: Record<Exclude<FileCategory, "other">, string[]> = {
+  video: [
+    "mov", "mp4", "m4v", "mkv", "avi", "mxf", "mts", "m2ts", "mpg", "mpeg", "wmv", "webm", "r3d", "braw", "ari", "dv",
+    "3gp", "flv", "vob", "prores",
+  ],
+  audio: ["wav", "mp3", "aif", "aiff", "m4a", "aac", "flac", "ogg", "opus", "wma", "caf", "alac", "mid", "midi"],
+  image: [
+    "jpg", "jpeg", "png", "gif", "tif", "tiff", "heic", "heif", "webp", "bmp", "raw", "cr2", "cr3", "nef", "arw",
+    "dng", "orf", "raf", "rw2", "psd", "svg", "exr", "dpx", "tga",
+  ],
+  document: [
+    "pdf", "doc", "docx", "txt", "rtf", "md", "pages", "odt", "xls", "xlsx", "csv", "numbers", "ppt", "pptx", "key",
+    "epub", "html", "htm",
+  ],
+  archive: ["zip", "rar", "7z", "tar", "gz", "tgz", "bz2", "xz", "dmg", "iso", "sparseimage", "sparsebundle"],
+  project: [
+    "prproj", "aep", "drp", "fcpxml", "fcpbundle", "imovieproj", "logicx", "band", "als", "ptx", "rpp", "blend",
+    "c4d", "ma", "mb", "hip", "nk", "indd", "ai", "sketch", "fig", "xcodeproj", "js", "ts", "tsx", "py", "rb", "go",
+    "rs", "java", "swift", "c", "cpp", "h", "cs", "php", "sh", "json", "xml", "yml", "yaml",
+  ],
+};
+
+const CATEGORY_BY_EXTENSION = new Map<string, FileCategory>(
+  Object.entries(EXTENSIONS).flatMap(([category, extensions]) =>
+    extensions.map((extension) => [extension, category as FileCategory] as [string, FileCategory])
+  )
+);
+
+/**
+ * Classifies a filename by its extension; unknown or missing extensions are "other"
+ */
+export function getFileCategory(name: string): FileCategory {
+  return CATEGORY_BY_EXTENSION.get(getExtension(name)) ?? "other";
+}
@@ -0,0 +1,323 @@
+#!/usr/bin/env node
+/**
+ * Command-line access to DriveBuddy catalogs, for shell scripts and CI checks
+ *
+ *   drivebuddy search <query...> [--drive <name|uuid>] [--limit <n>]
+ *   drivebuddy drives
+ *   drivebuddy ls <drive> [path]
+ *   drivebuddy recent [--drive <name|uuid>] [--limit <n>]
+ *
+ * Every command prints a table, or JSON with --json or one JSON object per
+ * line with --ndjson. --root reads another DriveBuddy catalog folder and
+ * --index-dir another folder of index files, within the catalog above it.
+ * Search uses the same query syntax and scoring as the Raycast extension, but
+ * without the recently-opened boost so results don't depend on who runs it.
+ *
+ * Exits with 1 when search finds nothing and 2 on usage or query errors.
+ */
+import { dirname, resolve } from "path";
+import { parseArgs } from "util";
+import { getFullPath, getRecentFiles, isDriveMounted, searchDrivesAsync } from "./drivebuddy";
+import { DriveStatus, listDriveStatuses } from "./driveStatus";
+import { findFolder, listFolder, loadFolderTree } from "./folderTree";
+import { FileSystemDataSource, setDataSource } from "./dataSource";
+import { QuerySyntaxError } from "./query";
+import { foldText } from "./normalize";
+import { formatAge, formatBytes } from "./format";
+
+type OutputFormat = "table" | "json" | "ndjson";
+
+type OutputRecord = Record<string, string | number | boolean | null>;
+
+interface Column {
+  header: string;
+  value: (record: OutputRecord) => string;
+}
+
+interface CliOptions {
+  format: OutputFormat;
+  drive?: string;
+  limit?: number;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+const USAGE = `Usage: drivebuddy <command> [options]
+
+Commands:
+  search <query...>    Search every indexed drive (same syntax as the extension)
+  drives               List known drives with mount state, free space and index date
+  ls <drive> [path]    List a folder from a drive's index
+  recent               List recently opened files
+
+Options:
+  --drive <name|uuid>  Only this drive (search, recent)
+  --limit <n>          Maximum number of results (default: 100 for search, 20 for recent)
+  --json               Print a JSON array
+  --ndjson             Print one JSON object per line
+  --root <dir>         Read a catalog folder (SearchIndexes/, click history and
+                       UE5.DriveBuddy.plist) instead of DriveBuddy's
+  --index-dir <dir>    Read index files from this folder, and the rest of the
+                       catalog from the folder above it unless --root is given
+  -h, --help           Show this help`;
+
+const DEFAULT_SEARCH_LIMIT = 100;
+const DEFAULT_RECENT_LIMIT = 20;
+
+/**
+ * Finds a known drive by volume UUID or name, ignoring case and accents
+ */
+function resolveDrive(value: string): DriveStatus {
+  const wanted = foldText(value);
+  const statuses = listDriveStatuses();
+
+  const byUUID = statuses.find((status) => status.volumeUUID.toLowerCase() === value.toLowerCase());
+  if (byUUID) {
+    return byUUID;
+  }
+
+  const byName = statuses.filter((status) => foldText(status.name) === wanted);
+  if (byName.length === 0) {
+    throw new UsageError(`Unknown drive "${value}"; run "drivebuddy drives" to list drives`);
+  }
+  if (byName.length > 1) {
+    throw new UsageError(`Several drives are called "${value}"; use a volume UUID instead`);
+  }
+  return byName[0];
+}
+
+function parseLimit(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const limit = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (!Number.isSafeInteger(limit) || limit <= 0) {
+    throw new UsageError(`--limit must be a positive whole number, not "${value}"`);
+  }
+  return limit;
+}
+
+function printRecords(records: OutputRecord[], columns: Column[], format: OutputFormat): void {
+  if (format === "json") {
+    console.log(JSON.stringify(records, null, 2));
+    return;
+  }
+  if (format === "ndjson") {
+    records.forEach((record) => console.log(JSON.stringify(record)));
+    return;
+  }
+
+  const rows = records.map((record) => columns.map((column) => column.value(record)));
+  const widths = columns.map((column, i) => Math.max(column.header.length, ...rows.map((row) => row[i].length)));
+  const formatRow = (cells: string[]) =>
+    cells
+      .map((cell, i) => (i === cells.length - 1 ? cell : cell.padEnd(widths[i])))
+      .join("  ")
+      .trimEnd();
+
+  console.log(formatRow(columns.map((column) => column.header)));
+  rows.forEach((row) => console.log(formatRow(row)));
+}
+
+const text = (key: string) => (record: OutputRecord) => (record[key] === null ? "" : String(record[key]));
+
+async function searchCommand(terms: string[], options: CliOptions): Promise<number> {
+  if (terms.length === 0) {
+    throw new UsageError("search needs a query");
+  }
+
+  const query = options.drive ? `${terms.join(" ")} drive:${resolveDrive(options.drive).volumeUUID}` : terms.join(" ");
+  const results = await searchDrivesAsync(query, options.limit ?? DEFAULT_SEARCH_LIMIT, { frecencyWeight: 0 });
+
+  const records = results.map((result) => ({
+    name: result.entry.name,
+    path: result.entry.relativePath,
+    kind: result.kind,
+    drive: result.driveName,
+    driveUUID: result.driveUUID,
+    score: Math.round(result.matchScore),
+    mounted: isDriveMounted(result.driveUUID),
+    fullPath: getFullPath(result.driveUUID, result.entry.relativePath),
+  }));
+
+  printRecords(
+    records,
+    [
+      { header: "SCORE", value: text("score") },
+      { header: "DRIVE", value: text("drive") },
+      { header: "PATH", value: (record) => `${record.path}${record.kind === "folder" ? "/" : ""}` },
+    ],
+    options.format
+  );
+  return records.length > 0 ? 0 : 1;
+}
+
+function drivesCommand(options: CliOptions): number {
+  const records = listDriveStatuses()
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((status) => ({
+      name: status.name,
+      driveUUID: status.volumeUUID,
+      mounted: status.mountPoint !== null,
+      mountPoint: status.mountPoint,
+      availableBytes: status.drive?.availableSize ?? null,
+      totalBytes: status.drive?.totalSize ?? null,
+      indexedAt: status.indexedAt?.toISOString() ?? null,
+      lastSeen: status.lastSeen?.toISOString() ?? null,
+    }));
+
+  const age = (key: string) => (record: OutputRecord) =>
+    record[key] === null ? "never" : formatAge(new Date(record[key] as string));
+
+  printRecords(
+    records,
+    [
+      { header: "NAME", value: text("name") },
+      { header: "STATUS", value: (record) => (record.mounted ? "connected" : "offline") },
+      {
+        header: "FREE",
+        value: (record) => (record.availableBytes === null ? "" : formatBytes(record.availableBytes as number)),
+      },
+      { header: "INDEXED", value: age("indexedAt") },
+      { header: "LAST SEEN", value: age("lastSeen") },
+      { header: "UUID", value: text("driveUUID") },
+    ],
+    options.format
+  );
+  return 0;
+}
+
+async function lsCommand(args: string[], options: CliOptions): Promise<number> {
+  const [driveArg, path = ""] = args;
+  if (!driveArg) {
+    throw new UsageError("ls needs a drive name or UUID");
+  }
+
+  const drive = resolveDrive(driveArg);
+  const tree = await loadFolderTree(drive.volumeUUID);
+  if (!tree) {
+    throw new UsageError(`${drive.name} has no index`);
+  }
+  const folder = findFolder(tree, path.replace(/^\/+|\/+$/g, ""));
+  if (!folder) {
+    throw new UsageError(`"${path}" is not a folder in ${drive.name}'s index`);
+  }
+
+  const { folders, files } = listFolder(folder);
+  const records: OutputRecord[] = [
+    ...folders.map((child) => ({
+      name: child.name,
+      path: child.relativePath,
+      kind: "folder",
+      items: child.folders.size + child.files.length,
+    })),
+    ...files.map((entry) => ({ name: entry.name, path: entry.relativePath, kind: "file", items: null })),
+  ];
+
+  printRecords(
+    records,
+    [
+      { header: "ITEMS", value: text("items") },
+      { header: "NAME", value: (record) => `${record.name}${record.kind === "folder" ? "/" : ""}` },
+    ],
+    options.format
+  );
+  return 0;
+}
+
+function recentCommand(options: CliOptions): number {
+  const driveUUID = options.drive ? resolveDrive(options.drive).volumeUUID : undefined;
+  const limit = options.limit ?? DEFAULT_RECENT_LIMIT;
+
+  // Click history holds at most 100 files, so filtering by drive after loading it all is cheap
+  const records = getRecentFiles(driveUUID ? Number.MAX_SAFE_INTEGER : limit)
+    .filter((result) => !driveUUID || result.driveUUID === driveUUID)
+    .slice(0, limit)
+    .map((result) => ({
+      name: result.entry.name,
+      path: result.entry.relativePath,
+      drive: result.driveName,
+      driveUUID: result.driveUUID,
+      fullPath: getFullPath(result.driveUUID, result.entry.relativePath),
+    }));
+
+  printRecords(
+    records,
+    [
+      { header: "DRIVE", value: text("drive") },
+      { header: "PATH", value: text("path") },
+    ],
+    options.format
+  );
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      drive: { type: "string" },
+      limit: { type: "string" },
+      json: { type: "boolean" },
+      ndjson: { type: "boolean" },
+      root: { type: "string" },
+      "index-dir": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+  if (values.json && values.ndjson) {
+    throw new UsageError("Choose either --json or --ndjson");
+  }
+
+  const indexDir = values["index-dir"];
+  const rootDir = values.root ?? (indexDir ? dirname(resolve(indexDir)) : undefined);
+  if (rootDir) {
+    // Caches and history for another catalog are kept in memory rather than mixed with DriveBuddy's
+    setDataSource(new FileSystemDataSource({ rootDir, indexDir, cacheDir: null, historyDir: null }));
+  }
+
+  const options: CliOptions = {
+    format: values.json ? "json" : values.ndjson ? "ndjson" : "table",
+    drive: values.drive,
+    limit: parseLimit(values.limit),
+  };
+
+  switch (command) {
+    case "search":
+      return searchCommand(args, options);
+    case "drives":
+      return drivesCommand(options);
+    case "ls":
+      return lsCommand(args, options);
+    case "recent":
+      return recentCommand(options);
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    if (error instanceof UsageError || error instanceof QuerySyntaxError || error?.code?.startsWith("ERR_PARSE_ARGS")) {
+      console.error(`drivebuddy: ${error.message}`);
+      process.exitCode = 2;
+      return;
+    }
+    console.error(error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from "react";
+import {
+  List,
+  Form,
+  Action,
+  ActionPanel,
+  Icon,
+  Color,
+  Clipboard,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { DriveInfo, findIndexFile, loadDriveInfo } from "./drivebuddy";
+import { ComparedEntry, DriveComparison, compareDrives } from "./driveCompare";
+import { FileActions } from "./fileActions";
+import { formatCount } from "./format";
+import { configureDataSource } from "./preferences";
+
+interface CompareFormValues {
+  driveA: string;
+  driveB: string;
+  prefixA: string;
+  prefixB: string;
+}
+
+/**
+ * Picks two indexed drives to compare, with optional folder prefixes
+ */
+export default function Command() {
+  configureDataSource();
+
+  const { push } = useNavigation();
+  const drives = Array.from(loadDriveInfo().values())
+    .filter((drive) => findIndexFile(drive.volumeUUID) !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleSubmit = (values: CompareFormValues) => {
+    if (values.driveA === values.driveB && values.prefixA.trim() === values.prefixB.trim()) {
+      showToast({ style: Toast.Style.Failure, title: "Choose Two Different Drives or Folders" });
+      return;
+    }
+
+    const driveA = drives.find((drive) => drive.volumeUUID === values.driveA)!;
+    const driveB = drives.find((drive) => drive.volumeUUID === values.driveB)!;
+    push(<ComparisonList driveA={driveA} driveB={driveB} prefixA={values.prefixA} prefixB={values.prefixB} />);
+  };
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Compare Drives" icon={Icon.Switch} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Compares two drives' indexes by relative path. Neither drive needs to be connected." />
+      <Form.Dropdown id="driveA" title="Drive A" storeValue>
+        {drives.map((drive) => (
+          <Form.Dropdown.Item
+            key={drive.volumeUUID}
+            value={drive.volumeUUID}
+            title={drive.name}
+            icon={Icon.HardDrive}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField id="prefixA" title="Folder on A" placeholder="Optional, e.g. Projects" storeValue />
+      <Form.Dropdown id="driveB" title="Drive B" storeValue>
+        {drives.map((drive) => (
+          <Form.Dropdown.Item
+            key={drive.volumeUUID}
+            value={drive.volumeUUID}
+            title={drive.name}
+            icon={Icon.HardDrive}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField id="prefixB" title="Folder on B" placeholder="Optional, e.g. Backups/Projects" storeValue />
+    </Form>
+  );
+}
+
+type ComparisonView = "missingOnB" | "missingOnA" | "onBoth";
+
+// Rendering is capped; copied path lists always cover every entry
+const MAX_VISIBLE_ENTRIES = 500;
+
+interface ComparisonListProps {
+  driveA: DriveInfo;
+  driveB: DriveInfo;
+  prefixA: string;
+  prefixB: string;
+}
+
+function ComparisonList({ driveA, driveB, prefixA, prefixB }: ComparisonListProps) {
+  const [comparison, setComparison] = useState<DriveComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<ComparisonView>("missingOnB");
+  const [searchText, setSearchText] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    compareDrives(driveA.volumeUUID, driveB.volumeUUID, { prefixA, prefixB })
+      .then((result) => {
+        if (!cancelled) {
+          setComparison(result);
+        }
+      })
+      .catch((error) => {
+        console.error("Drive comparison failed:", error);
+        if (!cancelled) {
+          setError(String(error));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [driveA.volumeUUID, driveB.volumeUUID, prefixA, prefixB]);
+
+  const labelA = prefixA.trim() ? `${driveA.name}/${prefixA.trim()}` : driveA.name;
+  const labelB = prefixB.trim() ? `${driveB.name}/${prefixB.trim()}` : driveB.name;
+  const titles: Record<ComparisonView, string> = {
+    missingOnB: `Missing on ${labelB}`,
+    missingOnA: `Missing on ${labelA}`,
+    onBoth: "On Both",
+  };
+
+  const entries = comparison ? comparison[view] : [];
+  const filterText = searchText.trim().toLowerCase();
+  const matching = filterText
+    ? entries.filter((entry) => entry.comparePath.toLowerCase().includes(filterText))
+    : entries;
+  const visible = matching.slice(0, MAX_VISIBLE_ENTRIES);
+
+  const copyPaths = async () => {
+    await Clipboard.copy(matching.map((entry) => entry.comparePath).join("\n"));
+    await showToast({ style: Toast.Style.Success, title: `Copied ${formatCount(matching.length)} paths` });
+  };
+
+  const renderEntry = (entry: ComparedEntry) => {
+    // Offer file actions on whichever drive holds the entry, preferring A
+    const onA = entry.pathA !== undefined;
+    const drive = onA ? driveA : driveB;
+    const relativePath = (onA ? entry.pathA : entry.pathB)!;
+
+    return (
+      <List.Item
+        key={entry.comparePath}
+        title={entry.name}
+        subtitle={entry.comparePath}
+        icon={{
+          source: entry.kind === "folder" ? Icon.Folder : Icon.Document,
+          tintColor: view === "onBoth" ? Color.Green : Color.Orange,
+        }}
+        accessories={[{ text: view === "onBoth" ? "Both drives" : `Only on ${drive.name}` }]}
+        actions={
+          <ActionPanel>
+            <Action
+              title="Copy Listed Paths"
+              icon={Icon.Clipboard}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+              onAction={copyPaths}
+            />
+            <FileActions
+              driveUUID={drive.volumeUUID}
+              driveName={drive.name}
+              entry={{ name: entry.name, relativePath }}
+              kind={entry.kind}
+            />
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
+  return (
+    <List
+      isLoading={comparison === null && error === null}
+      navigationTitle={`${labelA} ↔ ${labelB}`}
+      filtering={false}
+      onSearchTextChange={setSearchText}
+      searchBarPlaceholder="Filter by path..."
+      searchBarAccessory={
+        <List.Dropdown tooltip="Show" onChange={(value) => setView(value as ComparisonView)}>
+          {(Object.keys(titles) as ComparisonView[]).map((key) => (
+            <List.Dropdown.Item
+              key={key}
+              value={key}
+              title={comparison ? `${titles[key]} (${formatCount(comparison[key].length)})` : titles[key]}
+            />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      {error ? (
+        <List.EmptyView
+          icon={{ source: Icon.ExclamationMark, tintColor: Color.Red }}
+          title="Comparison Failed"
+          description={error}
+        />
+      ) : comparison && visible.length === 0 ? (
+        <List.EmptyView
+          icon={view === "onBoth" ? Icon.Circle : Icon.CheckCircle}
+          title={view === "onBoth" ? "Nothing in Common" : "Nothing Missing"}
+          description={
+            view === "missingOnB"
+              ? `Everything on ${labelA} is also on ${labelB}`
+              : view === "missingOnA"
+                ? `Everything on ${labelB} is also on ${labelA}`
+                : "The drives share no relative paths; check the folder prefixes"
+          }
+        />
+      ) : (
+        <List.Section
+          title={titles[view]}
+          subtitle={
+            matching.length > visible.length
+              ? `${formatCount(visible.length)} of ${formatCount(matching.length)}`
+              : formatCount(matching.length)
+          }
+        >
+          {visible.map(renderEntry)}
+        </List.Section>
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,116 @@
+import { existsSync, mkdirSync } from "fs";
+import { cp } from "fs/promises";
+import { basename, join } from "path";
+import { EntryKind, getFullPath, getMountPoint, recordFileAccess } from "./drivebuddy";
+import { DriveBuddyDataSource, getDataSource } from "./dataSource";
+import { getMountResolver } from "./mounts";
+import { getAvailablePath } from "./paths";
+
+/**
+ * What to do when the destination folder already has an entry of the same name
+ */
+export type ConflictPolicy = "rename" | "skip" | "overwrite";
+
+export type CopyStatus = "copied" | "skipped" | "offline" | "failed";
+
+/**
+ * A file or folder to copy off a drive
+ */
+export interface CopyItem {
+  driveUUID: string;
+  driveName: string;
+  relativePath: string;
+  kind: EntryKind;
+}
+
+export interface CopyOutcome {
+  item: CopyItem;
+  status: CopyStatus;
+  copiedTo?: string;
+  error?: string;
+}
+
+export interface CopyOptions {
+  conflict?: ConflictPolicy;
+  /**
+   * Called before each item is copied, with the number of items finished so far
+   */
+  onProgress?: (finished: number, total: number, item: CopyItem) => void;
+  source?: DriveBuddyDataSource;
+}
+
+/**
+ * Copies entries from their drives into a local folder, one at a time
+ *
+ * Entries on offline drives are reported rather than treated as failures, so
+ * callers can queue them for retrieval. Entries sharing a name, e.g. from
+ * different drives, are always kept apart by numbering the later copies, so the
+ * conflict policy only applies to what was in the folder before. Every copied
+ * entry is recorded in the click history like an opened file.
+ */
+export async function copyToFolder(
+  items: CopyItem[],
+  destination: string,
+  options: CopyOptions = {}
+): Promise<CopyOutcome[]> {
+  const { conflict = "rename", onProgress, source = getDataSource() } = options;
+  const outcomes: CopyOutcome[] = [];
+  // Destinations written by this batch
+  const copied = new Set<string>();
+  // Drives may have been connected since the list was shown
+  await getMountResolver().refresh();
+
+  for (const [index, item] of items.entries()) {
+    onProgress?.(index, items.length, item);
+
+    if (getMountPoint(item.driveUUID, source) === null) {
+      outcomes.push({ item, status: "offline" });
+      continue;
+    }
+
+    const from = getFullPath(item.driveUUID, item.relativePath, source);
+    try {
+      mkdirSync(destination, { recursive: true });
+      if (!existsSync(from)) {
+        throw new Error(`Not found on ${item.driveName}; it may have been moved since the drive was indexed`);
+      }
+
+      let to = join(destination, basename(item.relativePath));
+      if (copied.has(to)) {
+        to = getAvailablePath(destination, basename(item.relativePath));
+      } else if (existsSync(to)) {
+        if (conflict === "skip") {
+          outcomes.push({ item, status: "skipped", copiedTo: to });
+          continue;
+        }
+        if (conflict === "rename") {
+          to = getAvailablePath(destination, basename(item.relativePath));
+        }
+      }
+
+      // Overwriting a folder merges into it, replacing files of the same name
+      await cp(from, to, {
+        recursive: true,
+        force: conflict === "overwrite",
+        errorOnExist: conflict !== "overwrite",
+        preserveTimestamps: true,
+      });
+      copied.add(to);
+      recordFileAccess(item.driveUUID, item.relativePath, source);
+      outcomes.push({ item, status: "copied", copiedTo: to });
+    } catch (error) {
+      console.error(`Failed to copy ${from}:`, error);
+      outcomes.push({ item, status: "failed", error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Counts outcomes by status
+ */
+export function countCopyOutcomes(outcomes: CopyOutcome[]): Record<CopyStatus, number> {
+  const counts: Record<CopyStatus, number> = { copied: 0, skipped: 0, offline: 0, failed: 0 };
+  outcomes.forEach((outcome) => counts[outcome.status]++);
+  return counts;
+}
@@ -0,0 +1,359 @@
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { Readable } from "stream";
+import {
+  closeSync,
+  createReadStream,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  readdirSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+
+export interface IndexFileInfo {
+  file: string;
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * Where DriveBuddy's catalog data comes from
+ *
+ * Index files are addressed by their filename (the Base64-encoded volume UUID
+ * plus ".json"), as they are named in DriveBuddy's SearchIndexes folder.
+ */
+export interface DriveBuddyDataSource {
+  /**
+   * Identifies the underlying storage; sources with the same id share in-memory caches
+   */
+  readonly id: string;
+  /**
+   * Directory holding the index files, when they live on disk
+   * Worker threads can only be used for sources that have one
+   */
+  readonly indexDir: string | null;
+  /**
+   * Directory for derived search caches, or null to keep them in memory only
+   */
+  readonly cacheDir: string | null;
+  /**
+   * Directory for index history snapshots, or null to keep them in memory only
+   */
+  readonly historyDir: string | null;
+  /**
+   * Snapshots kept per drive each time one is recorded, or null to never prune
+   * while recording, e.g. when the user's Scans to Keep preference is unknown
+   */
+  readonly snapshotRetention: number | null;
+
+  listIndexFiles(): IndexFileInfo[];
+  statIndexFile(file: string): IndexFileInfo | null;
+  openIndexFile(file: string): Readable;
+  readIndexFileRange(file: string, start: number, length: number): Buffer;
+
+  getPreferencesMtime(): number | null;
+  readPreferences(): Buffer | null;
+
+  readClickHistory(): string | null;
+  writeClickHistory(content: string): void;
+
+  readFavorites(): string | null;
+  writeFavorites(content: string): void;
+
+  readRetrievalQueue(): string | null;
+  writeRetrievalQueue(content: string): void;
+}
+
+export const DEFAULT_DATA_ROOT = join(homedir(), "Library/Application Support/DriveBuddy");
+export const DEFAULT_PREFERENCES_PATH = join(homedir(), "Library/Preferences/UE5.DriveBuddy.plist");
+// Raycast's support folder for this extension, for code that runs outside Raycast such as the CLI
+export const DEFAULT_SUPPORT_DIR = join(
+  homedir(),
+  "Library/Application Support/com.raycast.macos/extensions/drivebuddy-search"
+);
+
+export interface FileSystemDataSourceOptions {
+  /**
+   * Folder containing SearchIndexes/ and click-history.json
+   */
+  rootDir?: string;
+  /**
+   * Folder of index files; defaults to SearchIndexes/ inside the root
+   */
+  indexDir?: string;
+  /**
+   * DriveBuddy preferences plist; defaults to UE5.DriveBuddy.plist inside a custom
+   * root when present, otherwise the one in ~/Library/Preferences
+   */
+  preferencesPath?: string;
+  /**
+   * Folder for the files the extension writes itself, so DriveBuddy's folder is
+   * only ever read, apart from click history; defaults to DEFAULT_SUPPORT_DIR
+   */
+  supportDir?: string;
+  /**
+   * Where derived search caches are written; defaults to SearchCache/ inside the support folder
+   */
+  cacheDir?: string | null;
+  /**
+   * Where index history snapshots are written; defaults to IndexHistory/ inside the support folder
+   */
+  historyDir?: string | null;
+  /**
+   * Snapshots kept per drive each time one is recorded; defaults to null, which never prunes
+   */
+  snapshotRetention?: number | null;
+  /**
+   * Where pinned and tagged entries are saved; defaults to favorites.json inside the support folder
+   */
+  favoritesPath?: string;
+  /**
+   * Where files requested from offline drives are queued; defaults to retrieval-queue.json inside the support folder
+   */
+  retrievalQueuePath?: string;
+}
+
+/**
+ * Reads DriveBuddy data from a folder on disk, such as DriveBuddy's own
+ * Application Support folder or a synced copy shared by a team
+ */
+export class FileSystemDataSource implements DriveBuddyDataSource {
+  readonly id: string;
+  readonly rootDir: string;
+  readonly supportDir: string;
+  readonly indexDir: string;
+  readonly cacheDir: string | null;
+  readonly historyDir: string | null;
+  readonly snapshotRetention: number | null;
+  readonly preferencesPath: string;
+  readonly clickHistoryPath: string;
+  readonly favoritesPath: string;
+  readonly retrievalQueuePath: string;
+
+  constructor(options: FileSystemDataSourceOptions = {}) {
+    this.rootDir = options.rootDir || DEFAULT_DATA_ROOT;
+    this.supportDir = options.supportDir || DEFAULT_SUPPORT_DIR;
+    this.indexDir = options.indexDir || join(this.rootDir, "SearchIndexes");
+    this.cacheDir = options.cacheDir !== undefined ? options.cacheDir : join(this.supportDir, "SearchCache");
+    this.historyDir = options.historyDir !== undefined ? options.historyDir : join(this.supportDir, "IndexHistory");
+    this.snapshotRetention = options.snapshotRetention ?? null;
+    this.clickHistoryPath = join(this.rootDir, "click-history.json");
+    this.favoritesPath = options.favoritesPath || join(this.supportDir, "favorites.json");
+    this.retrievalQueuePath = options.retrievalQueuePath || join(this.supportDir, "retrieval-queue.json");
+
+    const rootPreferences = join(this.rootDir, "UE5.DriveBuddy.plist");
+    this.preferencesPath =
+      options.preferencesPath || (existsSync(rootPreferences) ? rootPreferences : DEFAULT_PREFERENCES_PATH);
+
+    this.id = `fs:${this.indexDir}`;
+  }
+
+  listIndexFiles(): IndexFileInfo[] {
+    if (!existsSync(this.indexDir)) {
+      return [];
+    }
+
+    return readdirSync(this.indexDir)
+      .filter((f) => f.endsWith(".json"))
+      .map((file) => this.statIndexFile(file) ?? { file, size: 0, mtimeMs: 0 });
+  }
+
+  statIndexFile(file: string): IndexFileInfo | null {
+    try {
+      const stats = statSync(join(this.indexDir, file));
+      return { file, size: stats.size, mtimeMs: stats.mtimeMs };
+    } catch {
+      return null;
+    }
+  }
+
+  openIndexFile(file: string): Readable {
+    return createReadStream(join(this.indexDir, file), { encoding: "utf8" });
+  }
+
+  readIndexFileRange(file: string, start: number, length: number): Buffer {
+    const fd = openSync(join(this.indexDir, file), "r");
+    try {
+      const buffer = Buffer.alloc(length);
+      const bytesRead = readSync(fd, buffer, 0, length, start);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  getPreferencesMtime(): number | null {
+    try {
+      return statSync(this.preferencesPath).mtimeMs;
+    } catch {
+      return null;
+    }
+  }
+
+  readPreferences(): Buffer | null {
+    return existsSync(this.preferencesPath) ? readFileSync(this.preferencesPath) : null;
+  }
+
+  readClickHistory(): string | null {
+    return existsSync(this.clickHistoryPath) ? readFileSync(this.clickHistoryPath, "utf8") : null;
+  }
+
+  writeClickHistory(content: string): void {
+    if (!existsSync(this.rootDir)) {
+      mkdirSync(this.rootDir, { recursive: true });
+    }
+    writeFileSync(this.clickHistoryPath, content, "utf8");
+  }
+
+  readFavorites(): string | null {
+    return existsSync(this.favoritesPath) ? readFileSync(this.favoritesPath, "utf8") : null;
+  }
+
+  writeFavorites(content: string): void {
+    mkdirSync(dirname(this.favoritesPath), { recursive: true });
+    writeFileSync(this.favoritesPath, content, "utf8");
+  }
+
+  readRetrievalQueue(): string | null {
+    return existsSync(this.retrievalQueuePath) ? readFileSync(this.retrievalQueuePath, "utf8") : null;
+  }
+
+  writeRetrievalQueue(content: string): void {
+    mkdirSync(dirname(this.retrievalQueuePath), { recursive: true });
+    writeFileSync(this.retrievalQueuePath, content, "utf8");
+  }
+}
+
+export interface MemoryDataSourceOptions {
+  /**
+   * Index file contents by filename, as JSON text or an object to serialize
+   */
+  indexes?: Record<string, string | object>;
+  preferences?: Buffer;
+  clickHistory?: string;
+  favorites?: string;
+  retrievalQueue?: string;
+  snapshotRetention?: number | null;
+}
+
+let memorySourceCount = 0;
+
+/**
+ * Holds DriveBuddy data in memory, for fixtures and tools that assemble catalogs themselves
+ */
+export class MemoryDataSource implements DriveBuddyDataSource {
+  readonly id = `memory:${++memorySourceCount}`;
+  readonly indexDir = null;
+  readonly cacheDir = null;
+  readonly historyDir = null;
+  readonly snapshotRetention: number | null;
+
+  private indexes = new Map<string, { content: Buffer; mtimeMs: number }>();
+  private preferences: { content: Buffer; mtimeMs: number } | null = null;
+  private clickHistory: string | null;
+  private favorites: string | null;
+  private retrievalQueue: string | null;
+  // Stands in for mtime: bumped on every change so caches notice updates made within the same millisecond
+  private revision = 0;
+
+  constructor(options: MemoryDataSourceOptions = {}) {
+    Object.entries(options.indexes ?? {}).forEach(([file, content]) => this.setIndex(file, content));
+    if (options.preferences) {
+      this.setPreferences(options.preferences);
+    }
+    this.clickHistory = options.clickHistory ?? null;
+    this.favorites = options.favorites ?? null;
+    this.retrievalQueue = options.retrievalQueue ?? null;
+    this.snapshotRetention = options.snapshotRetention ?? null;
+  }
+
+  setIndex(file: string, content: string | object): void {
+    const text = typeof content === "string" ? content : JSON.stringify(content);
+    this.indexes.set(file, { content: Buffer.from(text, "utf8"), mtimeMs: ++this.revision });
+  }
+
+  removeIndex(file: string): void {
+    this.indexes.delete(file);
+  }
+
+  setPreferences(content: Buffer): void {
+    this.preferences = { content, mtimeMs: ++this.revision };
+  }
+
+  listIndexFiles(): IndexFileInfo[] {
+    return Array.from(this.indexes.keys()).map((file) => this.statIndexFile(file)!);
+  }
+
+  statIndexFile(file: string): IndexFileInfo | null {
+    const index = this.indexes.get(file);
+    return index ? { file, size: index.content.length, mtimeMs: index.mtimeMs } : null;
+  }
+
+  openIndexFile(file: string): Readable {
+    const index = this.indexes.get(file);
+    if (!index) {
+      throw new Error(`Index file not found: ${file}`);
+    }
+    return Readable.from([index.content], { objectMode: false });
+  }
+
+  readIndexFileRange(file: string, start: number, length: number): Buffer {
+    const index = this.indexes.get(file);
+    return index ? index.content.subarray(start, start + length) : Buffer.alloc(0);
+  }
+
+  getPreferencesMtime(): number | null {
+    return this.preferences?.mtimeMs ?? null;
+  }
+
+  readPreferences(): Buffer | null {
+    return this.preferences?.content ?? null;
+  }
+
+  readClickHistory(): string | null {
+    return this.clickHistory;
+  }
+
+  writeClickHistory(content: string): void {
+    this.clickHistory = content;
+  }
+
+  readFavorites(): string | null {
+    return this.favorites;
+  }
+
+  writeFavorites(content: string): void {
+    this.favorites = content;
+  }
+
+  readRetrievalQueue(): string | null {
+    return this.retrievalQueue;
+  }
+
+  writeRetrievalQueue(content: string): void {
+    this.retrievalQueue = content;
+  }
+}
+
+let defaultDataSource: DriveBuddyDataSource | null = null;
+
+/**
+ * The data source used when a function isn't given one explicitly
+ */
+export function getDataSource(): DriveBuddyDataSource {
+  if (!defaultDataSource) {
+    defaultDataSource = new FileSystemDataSource();
+  }
+  return defaultDataSource;
+}
+
+/**
+ * Replaces the default data source, e.g. with a folder chosen in preferences
+ */
+export function setDataSource(source: DriveBuddyDataSource): void {
+  defaultDataSource = source;
+}
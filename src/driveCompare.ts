@@ -0,0 +1,105 @@
+import { EntryKind, findIndexFile } from "./drivebuddy";
+import { getEntryKind, getSearchCache } from "./searchCache";
+import { DriveBuddyDataSource, getDataSource } from "./dataSource";
+
+export interface ComparedEntry {
+  // Path after the side's prefix has been removed; the key both drives are compared by
+  comparePath: string;
+  // Paths on each drive, where present
+  pathA?: string;
+  pathB?: string;
+  name: string;
+  kind: EntryKind;
+}
+
+export interface DriveComparison {
+  missingOnA: ComparedEntry[];
+  missingOnB: ComparedEntry[];
+  onBoth: ComparedEntry[];
+}
+
+export interface CompareOptions {
+  /**
+   * Only compare entries under this folder of drive A, relative to it
+   */
+  prefixA?: string;
+  /**
+   * Only compare entries under this folder of drive B, relative to it
+   */
+  prefixB?: string;
+  source?: DriveBuddyDataSource;
+}
+
+/**
+ * Cleans a user-entered prefix: no leading or trailing slashes
+ */
+function normalizePrefix(prefix: string | undefined): string {
+  return (prefix ?? "").trim().replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Reads a drive's entries keyed by their path relative to the prefix
+ * Paths and the prefix are compared in NFC form so decomposed and composed names match
+ */
+async function readEntries(
+  driveUUID: string,
+  prefix: string,
+  source: DriveBuddyDataSource
+): Promise<Map<string, { path: string; name: string; kind: EntryKind }>> {
+  const indexFile = findIndexFile(driveUUID, source);
+  if (!indexFile) {
+    throw new Error(`No index found for drive ${driveUUID}`);
+  }
+
+  const cache = await getSearchCache(source, indexFile);
+  const entries = new Map<string, { path: string; name: string; kind: EntryKind }>();
+  const start = prefix ? `${prefix.normalize("NFC")}/` : "";
+
+  for (let id = 0; id < cache.paths.length; id++) {
+    const path = cache.paths[id];
+    const normalizedPath = path.normalize("NFC");
+    if (!normalizedPath.startsWith(start)) continue;
+
+    const key = normalizedPath.slice(start.length);
+    if (key) {
+      entries.set(key, { path, name: cache.names[id], kind: getEntryKind(cache, id) });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Diffs two drives' catalogs by relative path, entirely from their offline indexes
+ *
+ * With prefixes, a backup that keeps the primary's "Projects" folder under
+ * "Backups/2024/Projects" can be compared by using "Projects" for A and
+ * "Backups/2024/Projects" for B. Each result list is sorted by path.
+ */
+export async function compareDrives(
+  driveA: string,
+  driveB: string,
+  options: CompareOptions = {}
+): Promise<DriveComparison> {
+  const source = options.source ?? getDataSource();
+  const entriesA = await readEntries(driveA, normalizePrefix(options.prefixA), source);
+  const entriesB = await readEntries(driveB, normalizePrefix(options.prefixB), source);
+
+  const comparison: DriveComparison = { missingOnA: [], missingOnB: [], onBoth: [] };
+
+  entriesA.forEach((a, comparePath) => {
+    const b = entriesB.get(comparePath);
+    const entry = { comparePath, pathA: a.path, pathB: b?.path, name: a.name, kind: a.kind };
+    (b ? comparison.onBoth : comparison.missingOnB).push(entry);
+  });
+  entriesB.forEach((b, comparePath) => {
+    if (!entriesA.has(comparePath)) {
+      comparison.missingOnA.push({ comparePath, pathB: b.path, name: b.name, kind: b.kind });
+    }
+  });
+
+  const byPath = (x: ComparedEntry, y: ComparedEntry) => x.comparePath.localeCompare(y.comparePath);
+  comparison.missingOnA.sort(byPath);
+  comparison.missingOnB.sort(byPath);
+  comparison.onBoth.sort(byPath);
+  return comparison;
+}
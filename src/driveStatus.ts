@@ -0,0 +1,122 @@
+import {
+  DriveInfo,
+  cfAbsoluteTimeToDate,
+  decodeVolumeUUID,
+  findIndexFile,
+  getMountPoint,
+  loadDriveInfo,
+} from "./drivebuddy";
+import { readGeneratedAt } from "./indexReader";
+import { getSearchCache } from "./searchCache";
+import { DriveBuddyDataSource, getDataSource } from "./dataSource";
+
+/**
+ * Everything known about one drive, from DriveBuddy's preferences and its index
+ */
+export interface DriveStatus {
+  volumeUUID: string;
+  name: string;
+  // Undefined for drives that have an index but no entry in DriveBuddy's preferences
+  drive?: DriveInfo;
+  indexFile: string | null;
+  indexedAt: Date | null;
+  lastSeen: Date | null;
+  mountPoint: string | null;
+}
+
+/**
+ * Lists every known drive: those in DriveBuddy's preferences plus any with an orphaned index
+ * Cheap enough to call on every render; entry counts are loaded separately
+ */
+export function listDriveStatuses(source: DriveBuddyDataSource = getDataSource()): DriveStatus[] {
+  const drives = loadDriveInfo(source);
+  const indexFiles = new Map<string, string>();
+
+  try {
+    for (const { file } of source.listIndexFiles()) {
+      indexFiles.set(decodeVolumeUUID(file), file);
+    }
+  } catch (error) {
+    console.error("Failed to list index files:", error);
+  }
+
+  const uuids = new Set([...drives.keys(), ...indexFiles.keys()]);
+  return Array.from(uuids).map((volumeUUID) =>
+    createDriveStatus(volumeUUID, drives.get(volumeUUID), indexFiles.get(volumeUUID) ?? null, source)
+  );
+}
+
+/**
+ * Status of one drive, or null if it is neither in DriveBuddy's preferences nor indexed
+ */
+export function getDriveStatus(
+  volumeUUID: string,
+  source: DriveBuddyDataSource = getDataSource()
+): DriveStatus | null {
+  const drive = loadDriveInfo(source).get(volumeUUID);
+  const indexFile = findIndexFile(volumeUUID, source);
+  if (!drive && !indexFile) {
+    return null;
+  }
+  return createDriveStatus(volumeUUID, drive, indexFile, source);
+}
+
+function createDriveStatus(
+  volumeUUID: string,
+  drive: DriveInfo | undefined,
+  indexFile: string | null,
+  source: DriveBuddyDataSource
+): DriveStatus {
+  const generatedAt = indexFile ? readGeneratedAt(source, indexFile) : undefined;
+
+  let mountPoint: string | null = null;
+  try {
+    mountPoint = getMountPoint(volumeUUID, source);
+  } catch (error) {
+    console.error(`Failed to resolve mount point for ${volumeUUID}:`, error);
+  }
+
+  return {
+    volumeUUID,
+    name: drive?.name || "Unknown Drive",
+    drive,
+    indexFile,
+    indexedAt: generatedAt !== undefined ? cfAbsoluteTimeToDate(generatedAt) : null,
+    lastSeen: typeof drive?.lastSeen === "number" ? cfAbsoluteTimeToDate(drive.lastSeen) : null,
+    mountPoint,
+  };
+}
+
+/**
+ * Counts the entries in a drive's index, building its search cache if needed
+ */
+export async function countIndexEntries(
+  indexFile: string,
+  source: DriveBuddyDataSource = getDataSource()
+): Promise<number> {
+  const cache = await getSearchCache(source, indexFile);
+  return cache.names.length;
+}
+
+/**
+ * Fraction of the drive's capacity in use, from 0 to 1, or null if sizes are unknown
+ */
+export function getUsedFraction(status: DriveStatus): number | null {
+  const total = status.drive?.totalSize;
+  const available = status.drive?.availableSize;
+  if (!total || total <= 0 || available === undefined) {
+    return null;
+  }
+  return Math.min(1, Math.max(0, (total - available) / total));
+}
+
+/**
+ * True when the drive's index is older than the threshold
+ * Drives without an index date are not considered stale
+ */
+export function isIndexStale(status: DriveStatus, thresholdDays: number, now: number = Date.now()): boolean {
+  if (!status.indexedAt || thresholdDays <= 0) {
+    return false;
+  }
+  return now - status.indexedAt.getTime() > thresholdDays * 24 * 60 * 60 * 1000;
+}
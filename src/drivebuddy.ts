@@ -1,8 +1,28 @@
-import { homedir } from "os";
-import { readFileSync, readdirSync, existsSync, statSync, writeFileSync } from "fs";
-import { join } from "path";
-import { execFileSync } from "child_process";
+import { setImmediate as yieldToEventLoop } from "timers/promises";
 import { distance } from "fastest-levenshtein";
+import { parsePlist } from "./plist";
+import { normalizeText, scoreTokenMatch } from "./normalize";
+import { readEntryKind, streamIndexEntries } from "./indexReader";
+import { getEntryKind, getSearchCache, queryCandidates } from "./searchCache";
+import { TopK } from "./topK";
+import { SearchJob, runSearchJobs } from "./searchPool";
+import {
+  ParsedQuery,
+  parseQuery,
+  isEmptyQuery,
+  getScoringText,
+  matchesDrive,
+  matchesEntry,
+  requiresTags,
+} from "./query";
+import { getMountResolver } from "./mounts";
+import { FileCategory, getFileCategory } from "./categories";
+import { DEFAULT_FRECENCY_WEIGHT, getFrecencyBoosts } from "./frecency";
+import { EntryTags, getEntryTags, loadFavorites } from "./favorites";
+import { DriveBuddyDataSource, FileSystemDataSource, getDataSource } from "./dataSource";
+import { decodeVolumeUUID, encodeVolumeUUID } from "./volumeUUID";
+
+export { decodeVolumeUUID, encodeVolumeUUID };
 
 export interface SearchEntry {
   name: string;
@@ -14,6 +34,19 @@ export interface SearchIndex {
   entries: SearchEntry[];
 }
 
+/**
+ * The `lastKnown` record DriveBuddy stores for each drive in DriveLogByKey.
+ * Fields we don't use directly are preserved as-is.
+ */
+export interface DriveLastKnown {
+  name: string;
+  path: string;
+  totalSize?: number;
+  availableSize?: number;
+  summary?: string;
+  [key: string]: unknown;
+}
+
 export interface DriveInfo {
   volumeUUID: string;
   name: string;
@@ -22,14 +55,36 @@ export interface DriveInfo {
   availableSize?: number;
   summary?: string;
   lastSeen?: number;
+  lastKnown: DriveLastKnown;
 }
 
+export type EntryKind = "file" | "folder";
+
+/**
+ * Which kinds of entries a search returns
+ */
+export type SearchScope = "all" | "files" | "folders";
+
 export interface SearchResult {
   entry: SearchEntry;
   driveUUID: string;
   driveName: string;
   indexFile: string;
   matchScore: number;
+  kind: EntryKind;
+  /**
+   * Number of entries anywhere below a folder, when known
+   */
+  descendantCount?: number;
+  /**
+   * Indexes into relativePath.split("/") of the path segments the query matched,
+   * the filename being the last segment
+   */
+  matchedSegments?: number[];
+  /**
+   * Points added to matchScore for ranking because the file was opened often and recently
+   */
+  frecencyBoost?: number;
 }
 
 export interface AccessHistory {
@@ -44,24 +99,17 @@ export interface ClickHistory {
 }
 
 /**
- * Decodes a Base64-encoded volume UUID from a filename
- * Example: NkI3NUVEMjItMDMzMi0zQTVDLTgyNTItMTU2ODFGQjAxRTRB.json -> 6B75ED22-0332-3A5C-8252-15681FB01E4A
+ * Finds the index file DriveBuddy wrote for a drive, or null if it hasn't been indexed
  */
-export function decodeVolumeUUID(filename: string): string {
-  try {
-    const base64 = filename.replace(".json", "");
-    const buffer = Buffer.from(base64, "base64");
-    return buffer.toString("ascii");
-  } catch (error) {
-    return filename.replace(".json", "");
+export function findIndexFile(driveUUID: string, source: DriveBuddyDataSource = getDataSource()): string | null {
+  const candidate = `${encodeVolumeUUID(driveUUID)}.json`;
+  if (source.statIndexFile(candidate)) {
+    return candidate;
   }
-}
 
-/**
- * Encodes a volume UUID to Base64 for filename lookup
- */
-export function encodeVolumeUUID(uuid: string): string {
-  return Buffer.from(uuid, "ascii").toString("base64");
+  // Fall back to decoding every filename, in case the encoding differs (e.g. padding)
+  const match = source.listIndexFiles().find(({ file }) => decodeVolumeUUID(file) === driveUUID);
+  return match?.file ?? null;
 }
 
 /**
@@ -78,55 +126,122 @@ export function cfAbsoluteTimeToDate(cfTime: number): Date {
  * Returns a score from 0-100, where 100 is a perfect match
  *
  * Algorithm:
- * - Compares lowercase versions of both strings
- * - Uses Levenshtein distance (minimum number of single-character edits)
- * - Normalizes by the longer string length
+ * - Normalizes both strings (Unicode form, diacritics, case, and _ - . separators)
+ * - Substring matches score 90-100
+ * - Word-prefix and acronym matches score 75-89 (see scoreTokenMatch)
+ * - Otherwise uses Levenshtein distance (minimum number of single-character edits)
+ *   normalized by the longer string length
  * - Returns percentage score (100 = perfect match, 0 = completely different)
  */
 export function calculateMatchScore(query: string, filename: string): number {
-  const lowerQuery = query.toLowerCase();
-  const lowerFilename = filename.toLowerCase();
+  const normalizedQuery = normalizeText(query);
+  const normalizedFilename = normalizeText(filename);
+
+  if (!normalizedQuery) {
+    return 0;
+  }
 
   // Perfect substring match gets a bonus
-  if (lowerFilename === lowerQuery) {
+  if (normalizedFilename === normalizedQuery) {
     return 100;
   }
 
-  if (lowerFilename.includes(lowerQuery)) {
+  if (normalizedFilename.includes(normalizedQuery)) {
     // Substring match: score based on how much of the filename is the query
     // e.g., "test" in "test.txt" scores higher than "test" in "my_test_file_document.txt"
-    const ratio = lowerQuery.length / lowerFilename.length;
+    const ratio = normalizedQuery.length / normalizedFilename.length;
     return 90 + (ratio * 10); // Score between 90-100
   }
 
+  const tokenScore = scoreTokenMatch(query, filename);
+
   // Calculate Levenshtein distance
-  const dist = distance(lowerQuery, lowerFilename);
-  const maxLength = Math.max(lowerQuery.length, lowerFilename.length);
+  const dist = distance(normalizedQuery, normalizedFilename);
+  const maxLength = Math.max(normalizedQuery.length, normalizedFilename.length);
 
   // Convert distance to similarity score (0-100)
   // Lower distance = higher score
   const similarity = maxLength > 0 ? ((maxLength - dist) / maxLength) * 100 : 0;
 
-  return Math.max(0, Math.min(100, similarity));
+  return Math.max(0, Math.min(100, Math.max(tokenScore, similarity)));
+}
+
+// Folder matches count for less than the same match in the filename
+const FOLDER_MATCH_WEIGHT = 0.9;
+
+// Scores at or below this are too weak to count as a match
+const MIN_MATCH_SCORE = 60;
+
+export interface PathMatch {
+  score: number;
+  matchedSegments: number[];
 }
 
 /**
- * Gets the path to the click history file
+ * Scores a query against a whole relative path
+ *
+ * The query is first scored against the filename alone. Multi-word queries are
+ * also scored word by word against every path segment, so "acme 2023 rushes"
+ * finds Clients/ACME/2023/Rushes/clip001.mov. Each word takes its best
+ * segment, folder matches weighted by FOLDER_MATCH_WEIGHT, and every word
+ * must match somewhere. The better of the two scores wins.
  */
-function getClickHistoryPath(): string {
-  return join(homedir(), "Library/Application Support/DriveBuddy/click-history.json");
+export function calculatePathMatchScore(query: string, relativePath: string): PathMatch {
+  const segments = relativePath.split("/");
+  const filenameIndex = segments.length - 1;
+
+  const filenameScore = calculateMatchScore(query, segments[filenameIndex]);
+  let best: PathMatch = {
+    score: filenameScore,
+    matchedSegments: filenameScore > MIN_MATCH_SCORE ? [filenameIndex] : [],
+  };
+
+  const terms = normalizeText(query).split(" ").filter((term) => term.length > 0);
+  if (terms.length < 2 || segments.length < 2) {
+    return best;
+  }
+
+  let total = 0;
+  const matched = new Set<number>();
+  for (const term of terms) {
+    let termScore = 0;
+    let termSegment = -1;
+
+    // Walk from the filename up so ties go to the segment closest to it
+    for (let i = filenameIndex; i >= 0; i--) {
+      if (!segments[i]) continue;
+      const weight = i === filenameIndex ? 1 : FOLDER_MATCH_WEIGHT;
+      const score = calculateMatchScore(term, segments[i]) * weight;
+      if (score > termScore) {
+        termScore = score;
+        termSegment = i;
+      }
+    }
+
+    if (termScore <= MIN_MATCH_SCORE) {
+      return best;
+    }
+    total += termScore;
+    matched.add(termSegment);
+  }
+
+  const pathScore = total / terms.length;
+  if (pathScore > best.score) {
+    best = { score: pathScore, matchedSegments: Array.from(matched).sort((a, b) => a - b) };
+  }
+
+  return best;
 }
 
 /**
  * Loads the click history from disk
  */
-export function loadClickHistory(): ClickHistory {
+export function loadClickHistory(source: DriveBuddyDataSource = getDataSource()): ClickHistory {
   try {
-    const historyPath = getClickHistoryPath();
-    if (!existsSync(historyPath)) {
+    const content = source.readClickHistory();
+    if (content === null) {
       return { files: [] };
     }
-    const content = readFileSync(historyPath, "utf8");
     return JSON.parse(content) as ClickHistory;
   } catch (error) {
     console.error("Failed to load click history:", error);
@@ -137,10 +252,9 @@ export function loadClickHistory(): ClickHistory {
 /**
  * Saves the click history to disk
  */
-function saveClickHistory(history: ClickHistory): void {
+function saveClickHistory(history: ClickHistory, source: DriveBuddyDataSource): void {
   try {
-    const historyPath = getClickHistoryPath();
-    writeFileSync(historyPath, JSON.stringify(history, null, 2), "utf8");
+    source.writeClickHistory(JSON.stringify(history, null, 2));
   } catch (error) {
     console.error("Failed to save click history:", error);
   }
@@ -149,8 +263,12 @@ function saveClickHistory(history: ClickHistory): void {
 /**
  * Records a file access in the click history
  */
-export function recordFileAccess(driveUUID: string, relativePath: string): void {
-  const history = loadClickHistory();
+export function recordFileAccess(
+  driveUUID: string,
+  relativePath: string,
+  source: DriveBuddyDataSource = getDataSource()
+): void {
+  const history = loadClickHistory(source);
   const now = Date.now();
 
   // Find existing entry
@@ -176,15 +294,15 @@ export function recordFileAccess(driveUUID: string, relativePath: string): void
   history.files.sort((a, b) => b.lastAccessed - a.lastAccessed);
   history.files = history.files.slice(0, 100);
 
-  saveClickHistory(history);
+  saveClickHistory(history, source);
 }
 
 /**
  * Gets recently accessed files as search results
  */
-export function getRecentFiles(limit: number = 20): SearchResult[] {
-  const history = loadClickHistory();
-  const driveInfo = loadDriveInfo();
+export function getRecentFiles(limit: number = 20, source: DriveBuddyDataSource = getDataSource()): SearchResult[] {
+  const history = loadClickHistory(source);
+  const driveInfo = loadDriveInfo(source);
   const results: SearchResult[] = [];
 
   // Get the most recent files
@@ -209,6 +327,7 @@ export function getRecentFiles(limit: number = 20): SearchResult[] {
       driveName: drive.name,
       indexFile: "",
       matchScore: 100, // Perfect score for recent files
+      kind: "file",
     });
   }
 
@@ -216,348 +335,471 @@ export function getRecentFiles(limit: number = 20): SearchResult[] {
 }
 
 /**
- * Loads drive information from DriveBuddy preferences
+ * Gets pinned files and folders as search results, most recently pinned first
  */
-export function loadDriveInfo(): Map<string, DriveInfo> {
-  const driveMap = new Map<string, DriveInfo>();
+export function getPinnedFiles(source: DriveBuddyDataSource = getDataSource()): SearchResult[] {
+  const driveInfo = loadDriveInfo(source);
+
+  return loadFavorites(source)
+    .items.filter((item) => item.pinnedAt !== null)
+    .sort((a, b) => b.pinnedAt! - a.pinnedAt!)
+    .map((item) => ({
+      entry: { name: item.relativePath.split("/").pop() || item.relativePath, relativePath: item.relativePath },
+      driveUUID: item.driveUUID,
+      driveName: driveInfo.get(item.driveUUID)?.name || "Unknown Drive",
+      indexFile: "",
+      matchScore: 100,
+      kind: item.kind,
+    }));
+}
 
-  try {
-    const prefsPath = join(homedir(), "Library/Preferences/UE5.DriveBuddy.plist");
+// Parsed drive info per data source, reused until the preferences file changes
+const driveInfoCache = new Map<string, { mtimeMs: number; drives: Map<string, DriveInfo> }>();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
 
-    if (!existsSync(prefsPath)) {
-      return driveMap;
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Parses the DriveLogByKey JSON blob into drive records
+ * Entries without a last known name and path are skipped, as are fields of the wrong type.
+ */
+export function parseDriveLog(driveLog: Record<string, unknown>): Map<string, DriveInfo> {
+  const driveMap = new Map<string, DriveInfo>();
+
+  Object.entries(driveLog).forEach(([uuid, data]: [string, unknown]) => {
+    if (!isRecord(data) || !isRecord(data.lastKnown)) {
+      return;
+    }
+    const { name, path, totalSize, availableSize, summary } = data.lastKnown;
+    if (typeof name !== "string" || typeof path !== "string") {
+      return;
     }
 
-    // Convert binary plist to XML using plutil (native macOS tool)
-    const xmlOutput = execFileSync("plutil", ["-convert", "xml1", "-o", "-", prefsPath], {
-      encoding: "utf8",
+    const lastKnown: DriveLastKnown = { ...data.lastKnown, name, path };
+    driveMap.set(uuid, {
+      volumeUUID: uuid,
+      name,
+      path,
+      totalSize: optionalNumber(totalSize),
+      availableSize: optionalNumber(availableSize),
+      summary: typeof summary === "string" ? summary : undefined,
+      lastSeen: optionalNumber(data.lastSeen),
+      lastKnown,
     });
+  });
 
-    // Parse DriveLogByKey from XML (contains the actual drive metadata)
-    const driveLogMatch = xmlOutput.match(/<key>DriveLogByKey<\/key>\s*<data>\s*([^<]+)\s*<\/data>/);
-    if (driveLogMatch) {
-      const base64Data = driveLogMatch[1].replace(/\s/g, "");
-      const driveLogJson = Buffer.from(base64Data, "base64").toString("utf8");
-      const driveLog = JSON.parse(driveLogJson);
-
-      Object.entries(driveLog).forEach(([uuid, data]: [string, any]) => {
-        if (data.lastKnown) {
-          driveMap.set(uuid, {
-            volumeUUID: uuid,
-            name: data.lastKnown.name,
-            path: data.lastKnown.path,
-            totalSize: data.lastKnown.totalSize,
-            availableSize: data.lastKnown.availableSize,
-            summary: data.lastKnown.summary,
-            lastSeen: data.lastSeen,
-          });
-        }
-      });
+  return driveMap;
+}
+
+/**
+ * Reads drive information from a DriveBuddy preferences plist (binary or XML)
+ */
+export function readDriveInfoFromPlist(plist: Buffer): Map<string, DriveInfo> {
+  const prefs = parsePlist(plist);
+  if (!prefs || typeof prefs !== "object" || Array.isArray(prefs) || Buffer.isBuffer(prefs) || prefs instanceof Date) {
+    return new Map();
+  }
+
+  // DriveLogByKey is stored as a data blob containing UTF-8 JSON
+  const driveLogData = prefs["DriveLogByKey"];
+  if (!Buffer.isBuffer(driveLogData)) {
+    return new Map();
+  }
+
+  const driveLog: unknown = JSON.parse(driveLogData.toString("utf8"));
+  return isRecord(driveLog) ? parseDriveLog(driveLog) : new Map();
+}
+
+/**
+ * Loads drive information from DriveBuddy preferences
+ * Cached until the preferences file changes on disk
+ */
+export function loadDriveInfo(source: DriveBuddyDataSource = getDataSource()): Map<string, DriveInfo> {
+  try {
+    const mtimeMs = source.getPreferencesMtime();
+    if (mtimeMs === null) {
+      return new Map();
+    }
+
+    const cached = driveInfoCache.get(source.id);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return new Map(cached.drives);
+    }
+
+    const plist = source.readPreferences();
+    if (!plist) {
+      return new Map();
     }
+
+    const drives = readDriveInfoFromPlist(plist);
+    driveInfoCache.set(source.id, { mtimeMs, drives });
+    return new Map(drives);
   } catch (error) {
     console.error("Failed to load drive info:", error);
   }
 
-  return driveMap;
+  return new Map();
 }
 
 /**
- * Simplified streaming search - reads file in small chunks, processes incrementally
- * Much more memory efficient than full JSON.parse()
+ * Scores an entry against a parsed query
+ * Scores 0 when a filter clause rules the entry out; filter-only queries score 100
  */
-async function streamSearchIndexFile(
-  filePath: string,
-  query: string,
-  maxResults: number,
-  currentResults: SearchResult[],
-  driveUUID: string,
-  driveName: string,
-  indexFile: string
-): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const readline = require("readline");
-    const fs = require("fs");
-
-    const stream = fs.createReadStream(filePath, { encoding: "utf8" });
-    const rl = readline.createInterface({ input: stream, crlfDelay: Infinity });
-
-    let currentEntry = "";
-    let braceCount = 0;
-    let inEntries = false;
-
-    rl.on("line", (line: string) => {
-      // Stop if we have enough results
-      if (currentResults.length >= maxResults) {
-        rl.close();
-        stream.destroy();
-        return;
-      }
-
-      // Check if we've found the entries array
-      if (!inEntries && line.includes('"entries"')) {
-        inEntries = true;
-        // Extract everything after "entries": [
-        const match = line.match(/"entries"\s*:\s*\[(.*)$/);
-        if (match) {
-          line = match[1];
-        }
-      }
+function scoreEntry(query: ParsedQuery, scoringText: string, entry: SearchEntry, tags?: EntryTags): PathMatch {
+  if (!matchesEntry(query, entry, tags?.[entry.relativePath])) {
+    return { score: 0, matchedSegments: [] };
+  }
 
-      if (!inEntries) return;
-
-      // Track braces to find complete entry objects
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-
-        if (char === "{") {
-          if (braceCount === 0) currentEntry = "";
-          braceCount++;
-        }
-
-        if (braceCount > 0) {
-          currentEntry += char;
-        }
-
-        if (char === "}") {
-          braceCount--;
-
-          if (braceCount === 0 && currentEntry.length > 2) {
-            // Complete entry found - parse and search
-            try {
-              const entry = JSON.parse(currentEntry) as SearchEntry;
-
-              if (entry.name && entry.relativePath) {
-                // Calculate match score for the filename
-                const matchScore = calculateMatchScore(query, entry.name.toLowerCase());
-
-                // Only include results with a good match score (> 60)
-                // This filters out weak fuzzy matches like "test" vs "trash"
-                if (matchScore > 60) {
-                  currentResults.push({
-                    entry,
-                    driveUUID,
-                    driveName,
-                    indexFile,
-                    matchScore,
-                  });
-
-                  if (currentResults.length >= maxResults) {
-                    rl.close();
-                    stream.destroy();
-                    return;
-                  }
-                }
-              }
-            } catch (e) {
-              // Skip malformed entries
-            }
-
-            currentEntry = "";
-          }
-        }
-      }
-    });
+  if (!scoringText) {
+    return { score: 100, matchedSegments: [] };
+  }
 
-    rl.on("close", resolve);
-    rl.on("error", reject);
-    stream.on("error", reject);
-  });
+  return calculatePathMatchScore(scoringText, entry.relativePath || entry.name);
 }
 
 /**
- * Searches across all indexed drives with streaming (async, no memory limit)
+ * Match score plus any frecency boost
  */
-export async function searchDrivesAsync(query: string, maxResults: number = 100): Promise<SearchResult[]> {
-  const results: SearchResult[] = [];
-  const lowerQuery = query.toLowerCase().trim();
+export function getRankScore(result: SearchResult): number {
+  return result.matchScore + (result.frecencyBoost ?? 0);
+}
 
-  if (!lowerQuery) {
-    return results;
+/**
+ * Ranks results by match score (with frecency boost), then drive name, then path
+ */
+export function compareSearchResults(a: SearchResult, b: SearchResult): number {
+  // Primary sort: boosted match score (descending)
+  const rankA = getRankScore(a);
+  const rankB = getRankScore(b);
+  if (rankB !== rankA) {
+    return rankB - rankA;
   }
 
-  const indexDir = join(homedir(), "Library/Application Support/DriveBuddy/SearchIndexes");
+  // Secondary sort: drive name (alphabetical)
+  if (a.driveName !== b.driveName) {
+    return a.driveName.localeCompare(b.driveName);
+  }
 
-  if (!existsSync(indexDir)) {
-    return results;
+  // Tertiary sort: path (alphabetical)
+  if (a.entry.relativePath !== b.entry.relativePath) {
+    return a.entry.relativePath.localeCompare(b.entry.relativePath);
   }
 
-  const driveInfo = loadDriveInfo();
+  // Final tie-break keeps the order deterministic for drives that share a name
+  return a.driveUUID.localeCompare(b.driveUUID);
+}
 
-  try {
-    const files = readdirSync(indexDir).filter((f) => f.endsWith(".json"));
-
-    // Process smallest index files first for faster initial results
-    const fileStats = files.map((f) => {
-      try {
-        const stats = statSync(join(indexDir, f));
-        return { file: f, size: stats.size };
-      } catch {
-        return { file: f, size: 0 };
-      }
-    });
-    fileStats.sort((a, b) => a.size - b.size);
+/**
+ * True when an entry belongs in the job's scope and category
+ * A category restricts results to files of that category
+ */
+function inScope(job: Pick<SearchJob, "scope" | "category">, kind: EntryKind, name: string): boolean {
+  if (job.category) {
+    return kind === "file" && getFileCategory(name) === job.category;
+  }
+  return !job.scope || job.scope === "all" || (job.scope === "folders") === (kind === "folder");
+}
 
-    // Process each drive's index file with streaming
-    for (const { file } of fileStats) {
-      if (results.length >= maxResults) {
-        break;
-      }
+/**
+ * Offers a scored entry to the top-K results
+ * Only results with a good match score (> 60) are considered; this filters
+ * out weak fuzzy matches like "test" vs "trash"
+ */
+function offerResult(
+  results: TopK<SearchResult>,
+  job: Pick<SearchJob, "driveUUID" | "driveName" | "indexFile" | "frecencyBoosts">,
+  entry: SearchEntry,
+  match: PathMatch,
+  kind: EntryKind,
+  descendantCount?: number
+): void {
+  const matchScore = match.score;
+  if (matchScore <= MIN_MATCH_SCORE) {
+    return;
+  }
 
-      const uuid = decodeVolumeUUID(file);
-      const drive = driveInfo.get(uuid);
-      const driveName = drive?.name || `Unknown Drive`;
+  // Boosting here rather than after the merge lets frequently opened files survive the per-drive cut
+  const frecencyBoost = job.frecencyBoosts?.[entry.relativePath];
 
-      try {
-        await streamSearchIndexFile(
-          join(indexDir, file),
-          lowerQuery,
-          maxResults,
-          results,
-          uuid,
-          driveName,
-          file
-        );
-      } catch (error) {
-        console.error(`Failed to stream search index ${file}:`, error);
-      }
-    }
-  } catch (error) {
-    console.error("Failed to search drives:", error);
+  // Cheap reject before allocating a result that can't make the cut
+  const worst = results.peekWorst();
+  if (results.isFull && worst && matchScore + (frecencyBoost ?? 0) < getRankScore(worst)) {
+    return;
   }
 
-  // Sort results by match score (highest first)
-  results.sort((a, b) => {
-    // Primary sort: match score (descending)
-    if (b.matchScore !== a.matchScore) {
-      return b.matchScore - a.matchScore;
+  results.push({
+    entry,
+    driveUUID: job.driveUUID,
+    driveName: job.driveName,
+    indexFile: job.indexFile,
+    matchScore,
+    matchedSegments: match.matchedSegments,
+    kind,
+    descendantCount,
+    frecencyBoost,
+  });
+}
+
+/**
+ * Simplified streaming search - reads file in small chunks, processes incrementally
+ * Much more memory efficient than full JSON.parse()
+ * Folders can only be recognized here when the index marks them explicitly
+ */
+async function streamSearchIndexFile(
+  source: DriveBuddyDataSource,
+  query: ParsedQuery,
+  results: TopK<SearchResult>,
+  job: SearchJob,
+  signal?: AbortSignal
+): Promise<void> {
+  const scoringText = getScoringText(query);
+
+  await streamIndexEntries(source.openIndexFile(job.indexFile), (entry) => {
+    if (signal?.aborted) {
+      return false;
+    }
+    const kind = readEntryKind(entry) ?? "file";
+    if (inScope(job, kind, entry.name)) {
+      const { name, relativePath } = entry;
+      offerResult(results, job, { name, relativePath }, scoreEntry(query, scoringText, entry, job.tags), kind);
     }
+  });
+
+  signal?.throwIfAborted();
+}
 
-    // Secondary sort: drive name (alphabetical)
-    if (a.driveName !== b.driveName) {
-      return a.driveName.localeCompare(b.driveName);
+// Candidates scored between yields to the event loop
+const SCAN_YIELD_INTERVAL = 2000;
+
+/**
+ * Searches an index file through its trigram cache, scoring only candidate entries
+ */
+async function cachedSearchIndexFile(
+  source: DriveBuddyDataSource,
+  query: ParsedQuery,
+  results: TopK<SearchResult>,
+  job: SearchJob,
+  signal?: AbortSignal
+): Promise<void> {
+  const cache = await getSearchCache(source, job.indexFile);
+  const scoringText = getScoringText(query);
+  signal?.throwIfAborted();
+
+  // Filter-only queries (e.g. "ext:mov") have no text to look up, so every entry is a candidate
+  const candidates = scoringText ? queryCandidates(cache, scoringText) : cache.names.keys();
+
+  let scanned = 0;
+  for (const id of candidates) {
+    // Yield periodically so that, on the main thread, a newer keystroke gets a chance to abort this scan
+    if (++scanned % SCAN_YIELD_INTERVAL === 0) {
+      await yieldToEventLoop();
+      signal?.throwIfAborted();
     }
 
-    // Tertiary sort: path (alphabetical)
-    return a.entry.relativePath.localeCompare(b.entry.relativePath);
-  });
+    const kind = getEntryKind(cache, id);
+    if (!inScope(job, kind, cache.names[id])) {
+      continue;
+    }
 
-  return results.slice(0, maxResults);
+    const entry = { name: cache.names[id], relativePath: cache.paths[id] };
+    const descendantCount = kind === "folder" ? cache.descendants[id] : undefined;
+    offerResult(results, job, entry, scoreEntry(query, scoringText, entry, job.tags), kind, descendantCount);
+  }
 }
 
 /**
- * Searches across all indexed drives (synchronous fallback, with size limit)
+ * Scans a single index file for a query and returns its best matches
+ * Used directly on the main thread and by search worker threads, which
+ * open the job's index folder themselves
  */
-export function searchDrives(query: string, maxResults: number = 100): SearchResult[] {
-  const results: SearchResult[] = [];
-  const lowerQuery = query.toLowerCase().trim();
+export async function runSearchJob(
+  job: SearchJob,
+  signal?: AbortSignal,
+  source: DriveBuddyDataSource = new FileSystemDataSource({
+    indexDir: job.indexDir!,
+    cacheDir: job.cacheDir,
+    historyDir: job.historyDir,
+    snapshotRetention: job.snapshotRetention,
+  })
+): Promise<SearchResult[]> {
+  const parsedQuery = parseQuery(job.query);
+  const results = new TopK<SearchResult>(job.maxResults, compareSearchResults);
 
-  if (!lowerQuery) {
-    return results;
+  try {
+    await cachedSearchIndexFile(source, parsedQuery, results, job, signal);
+  } catch (cacheError) {
+    if (signal?.aborted) throw cacheError;
+
+    // Fall back to scanning the source index directly
+    console.error(`Failed to use search cache for ${job.indexFile}:`, cacheError);
+    try {
+      await streamSearchIndexFile(source, parsedQuery, results, job, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`Failed to stream search index ${job.indexFile}:`, error);
+    }
   }
 
-  const indexDir = join(homedir(), "Library/Application Support/DriveBuddy/SearchIndexes");
+  return results.toSortedArray();
+}
+
+/**
+ * Lists the source's index files, smallest first so early progress arrives quickly
+ */
+function listIndexFiles(source: DriveBuddyDataSource): string[] {
+  return source
+    .listIndexFiles()
+    .sort((a, b) => a.size - b.size)
+    .map(({ file }) => file);
+}
 
-  if (!existsSync(indexDir)) {
-    return results;
+export interface SearchOptions {
+  /**
+   * Called with the current best results each time a drive's index has been scanned
+   */
+  onProgress?: (results: SearchResult[]) => void;
+  /**
+   * Aborting rejects the search immediately with the signal's reason
+   */
+  signal?: AbortSignal;
+  /**
+   * Where to read indexes and drive info from; defaults to getDataSource()
+   */
+  source?: DriveBuddyDataSource;
+  /**
+   * Restrict results to files or folders; defaults to "all"
+   */
+  scope?: SearchScope;
+  /**
+   * Restrict results to files of one category, applied before maxResults is counted
+   */
+  category?: FileCategory;
+  /**
+   * Points a frequently and recently opened file can gain over equally good matches;
+   * defaults to DEFAULT_FRECENCY_WEIGHT, 0 ranks by match alone
+   */
+  frecencyWeight?: number;
+}
+
+/**
+ * Searches across all indexed drives with streaming (async, no memory limit)
+ * Index files are scanned concurrently (on worker threads when available),
+ * keeping the best maxResults matches across all drives
+ * Throws QuerySyntaxError if the query can't be parsed
+ */
+export async function searchDrivesAsync(
+  query: string,
+  maxResults: number = 100,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const {
+    onProgress,
+    signal,
+    source = getDataSource(),
+    scope = "all",
+    category,
+    frecencyWeight = DEFAULT_FRECENCY_WEIGHT,
+  } = options;
+  const results = new TopK<SearchResult>(maxResults, compareSearchResults);
+  const parsedQuery = parseQuery(query);
+
+  if (isEmptyQuery(parsedQuery)) {
+    return [];
   }
 
-  const driveInfo = loadDriveInfo();
+  const driveInfo = loadDriveInfo(source);
+  const frecencyBoosts = getFrecencyBoosts(loadClickHistory(source), frecencyWeight);
+  const entryTags = getEntryTags(loadFavorites(source));
+  const tagsRequired = requiresTags(parsedQuery);
+  const jobs: SearchJob[] = [];
 
   try {
-    const files = readdirSync(indexDir).filter((f) => f.endsWith(".json"));
-
-    // Process smallest index files first to avoid loading huge files
-    const fileStats = files.map((f) => {
-      try {
-        const stats = statSync(join(indexDir, f));
-        return { file: f, size: stats.size };
-      } catch {
-        return { file: f, size: 0 };
-      }
-    });
-    fileStats.sort((a, b) => a.size - b.size);
-
-    // Process each drive's index file separately to avoid loading all at once
-    // Note: This synchronous version is now a fallback only - use searchDrivesAsync for large files
-    for (const { file, size } of fileStats) {
-      // Stop early if we have enough results
-      if (results.length >= maxResults) {
-        break;
-      }
+    for (const file of listIndexFiles(source)) {
+      const uuid = decodeVolumeUUID(file);
+      const drive = driveInfo.get(uuid);
+      const driveName = drive?.name || `Unknown Drive`;
 
-      try {
-        const content = readFileSync(join(indexDir, file), "utf8");
-        const index = JSON.parse(content) as SearchIndex;
-        const uuid = decodeVolumeUUID(file);
-        const drive = driveInfo.get(uuid);
-        const driveName = drive?.name || `Unknown Drive`;
-
-        // Search through entries with early exit
-        for (const entry of index.entries) {
-          // Calculate match score for the filename
-          const matchScore = calculateMatchScore(lowerQuery, entry.name.toLowerCase());
-
-          // Only include results with a good match score (> 60)
-          // This filters out weak fuzzy matches like "test" vs "trash"
-          if (matchScore > 60) {
-            results.push({
-              entry,
-              driveUUID: uuid,
-              driveName,
-              indexFile: file,
-              matchScore,
-            });
-
-            // Early exit as soon as we have enough results
-            if (results.length >= maxResults) {
-              break;
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`Failed to search index ${file}:`, error);
+      const tags = entryTags.get(uuid);
+      if (!matchesDrive(parsedQuery, uuid, driveName) || (tagsRequired && !tags)) {
+        continue;
       }
+
+      jobs.push({
+        indexDir: source.indexDir,
+        indexFile: file,
+        cacheDir: source.cacheDir,
+        historyDir: source.historyDir,
+        snapshotRetention: source.snapshotRetention,
+        query,
+        maxResults,
+        driveUUID: uuid,
+        driveName,
+        scope,
+        category,
+        frecencyBoosts: frecencyBoosts.get(uuid),
+        tags,
+      });
     }
   } catch (error) {
     console.error("Failed to search drives:", error);
   }
 
-  // Sort results by match score (highest first)
-  results.sort((a, b) => {
-    // Primary sort: match score (descending)
-    if (b.matchScore !== a.matchScore) {
-      return b.matchScore - a.matchScore;
-    }
-
-    // Secondary sort: drive name (alphabetical)
-    if (a.driveName !== b.driveName) {
-      return a.driveName.localeCompare(b.driveName);
-    }
-
-    // Tertiary sort: path (alphabetical)
-    return a.entry.relativePath.localeCompare(b.entry.relativePath);
+  // Merging through the top-K heap keeps the final order independent of which drive finishes first
+  await runSearchJobs(jobs, (job, jobSignal) => runSearchJob(job, jobSignal, source), {
+    signal,
+    // Worker threads read index files from disk, so in-memory sources are scanned here
+    useWorkers: source.indexDir !== null,
+    onJobComplete: (_job, jobResults) => {
+      jobResults.forEach((result) => results.push(result));
+      onProgress?.(results.toSortedArray());
+    },
   });
 
-  // Return only the requested number of results
-  return results.slice(0, maxResults);
+  return results.toSortedArray();
+}
+
+/**
+ * Gets a drive's current mount point by volume UUID, or null if it isn't mounted
+ */
+export function getMountPoint(driveUUID: string, source: DriveBuddyDataSource = getDataSource()): string | null {
+  const drive = loadDriveInfo(source).get(driveUUID);
+  return getMountResolver().resolve(driveUUID, { name: drive?.name, path: drive?.path });
 }
 
 /**
  * Checks if a drive is currently mounted
  */
-export function isDriveMounted(driveName: string): boolean {
+export function isDriveMounted(driveUUID: string, source: DriveBuddyDataSource = getDataSource()): boolean {
   try {
-    const volumesPath = `/Volumes/${driveName}`;
-    return existsSync(volumesPath);
+    return getMountPoint(driveUUID, source) !== null;
   } catch {
     return false;
   }
 }
 
 /**
- * Gets the full path for a file on a drive
+ * Gets the folder a drive's relative paths are resolved against, without a trailing slash
+ * Uses the drive's current mount point, or where it was last mounted when offline
  */
-export function getFullPath(driveName: string, relativePath: string): string {
-  return `/Volumes/${driveName}/${relativePath}`;
+export function getDriveRoot(driveUUID: string, source: DriveBuddyDataSource = getDataSource()): string {
+  const drive = loadDriveInfo(source).get(driveUUID);
+  const root = getMountPoint(driveUUID, source) ?? drive?.path ?? `/Volumes/${drive?.name ?? driveUUID}`;
+  return root.replace(/\/+$/, "");
 }
 
+/**
+ * Gets the full path for a file on a drive
+ * Uses the drive's current mount point, or where it was last mounted when offline
+ */
+export function getFullPath(
+  driveUUID: string,
+  relativePath: string,
+  source: DriveBuddyDataSource = getDataSource()
+): string {
+  return `${getDriveRoot(driveUUID, source)}/${relativePath}`;
+}
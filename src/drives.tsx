@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from "react";
+import { List, Action, ActionPanel, Icon, Color, Keyboard, getPreferenceValues, open } from "@raycast/api";
+import { getProgressIcon } from "@raycast/utils";
+import { DriveStatus, countIndexEntries, getUsedFraction, isIndexStale, listDriveStatuses } from "./driveStatus";
+import { formatAge, formatBytes, formatCount } from "./format";
+import { ExportForm } from "./exportForm";
+import { exportDriveCatalog } from "./catalogExport";
+import { configureDataSource, parseCountPreference } from "./preferences";
+
+interface Preferences {
+  staleIndexDays: string;
+}
+
+type SortField = "name" | "freeSpace" | "usedSpace" | "lastSeen" | "indexAge" | "entries";
+
+type DriveFilter = "all" | "connected" | "offline" | "stale" | "unindexed";
+
+const DEFAULT_STALE_INDEX_DAYS = 30;
+
+const SORT_FIELDS: { field: SortField; title: string }[] = [
+  { field: "name", title: "Name" },
+  { field: "freeSpace", title: "Free Space" },
+  { field: "usedSpace", title: "Capacity Used" },
+  { field: "lastSeen", title: "Last Seen" },
+  { field: "indexAge", title: "Index Age" },
+  { field: "entries", title: "Entry Count" },
+];
+
+export default function Command() {
+  configureDataSource();
+
+  const preferences = getPreferenceValues<Preferences>();
+  const staleDays = parseCountPreference(preferences.staleIndexDays, DEFAULT_STALE_INDEX_DAYS);
+
+  const [statuses, setStatuses] = useState<DriveStatus[]>([]);
+  const [entryCounts, setEntryCounts] = useState<Map<string, number>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [sortField, setSortField] = useState<SortField>("name");
+  const [filter, setFilter] = useState<DriveFilter>("all");
+
+  useEffect(() => {
+    let cancelled = false;
+    const drives = listDriveStatuses();
+    setStatuses(drives);
+
+    // Counting entries may build search caches, so counts fill in drive by drive
+    (async () => {
+      for (const status of drives) {
+        if (cancelled) return;
+        if (!status.indexFile) continue;
+        try {
+          const count = await countIndexEntries(status.indexFile);
+          if (!cancelled) {
+            setEntryCounts((counts) => new Map(counts).set(status.volumeUUID, count));
+          }
+        } catch (error) {
+          console.error(`Failed to count entries for ${status.name}:`, error);
+        }
+      }
+      if (!cancelled) {
+        setIsLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const isStale = (status: DriveStatus) => isIndexStale(status, staleDays);
+
+  const visible = statuses
+    .filter((status) => {
+      switch (filter) {
+        case "connected":
+          return status.mountPoint !== null;
+        case "offline":
+          return status.mountPoint === null;
+        case "stale":
+          return isStale(status);
+        case "unindexed":
+          return status.indexFile === null;
+        default:
+          return true;
+      }
+    })
+    .sort((a, b) => compareStatuses(a, b, sortField, entryCounts) || a.name.localeCompare(b.name));
+
+  const sortTitle = SORT_FIELDS.find((s) => s.field === sortField)?.title;
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Filter drives by name..."
+      searchBarAccessory={
+        <List.Dropdown tooltip="Show Drives" storeValue onChange={(value) => setFilter(value as DriveFilter)}>
+          <List.Dropdown.Item title="All Drives" value="all" />
+          <List.Dropdown.Item title="Connected" value="connected" />
+          <List.Dropdown.Item title="Offline" value="offline" />
+          <List.Dropdown.Item title={`Index Older Than ${staleDays} Days`} value="stale" />
+          <List.Dropdown.Item title="Not Indexed" value="unindexed" />
+        </List.Dropdown>
+      }
+    >
+      {visible.length === 0 && !isLoading ? (
+        <List.EmptyView
+          icon={Icon.HardDrive}
+          title="No Drives Found"
+          description={
+            statuses.length === 0 ? "Connect a drive and scan it in DriveBuddy" : "No drives match this filter"
+          }
+        />
+      ) : (
+        <List.Section title={`Sorted by ${sortTitle}`} subtitle={`${visible.length} drives`}>
+          {visible.map((status) => {
+            const mounted = status.mountPoint !== null;
+            const stale = isStale(status);
+            const used = getUsedFraction(status);
+            const entries = entryCounts.get(status.volumeUUID);
+            const accessories: List.Item.Accessory[] = [];
+
+            if (used !== null) {
+              accessories.push({
+                icon: getProgressIcon(used, used > 0.9 ? Color.Red : Color.Blue),
+                text: `${formatBytes(status.drive!.availableSize!)} free`,
+                tooltip: `${Math.round(used * 100)}% of ${formatBytes(status.drive!.totalSize!)} used`,
+              });
+            }
+            if (entries !== undefined) {
+              accessories.push({ text: `${formatCount(entries)} entries`, tooltip: "Entries in the index" });
+            }
+            if (status.indexedAt) {
+              accessories.push({
+                tag: {
+                  value: `Indexed ${formatAge(status.indexedAt)}`,
+                  color: stale ? Color.Orange : Color.SecondaryText,
+                },
+                tooltip: stale
+                  ? `Index is older than ${staleDays} days (${status.indexedAt.toLocaleString()})`
+                  : status.indexedAt.toLocaleString(),
+              });
+            } else {
+              accessories.push({ tag: { value: "Not Indexed", color: Color.Red } });
+            }
+            if (status.lastSeen) {
+              accessories.push({ date: status.lastSeen, tooltip: `Last seen ${status.lastSeen.toLocaleString()}` });
+            }
+            accessories.push({
+              icon: {
+                source: mounted ? Icon.CircleFilled : Icon.Circle,
+                tintColor: mounted ? Color.Green : Color.SecondaryText,
+              },
+              tooltip: mounted ? `Connected at ${status.mountPoint}` : "Drive Offline",
+            });
+
+            return (
+              <List.Item
+                key={status.volumeUUID}
+                title={status.name}
+                subtitle={status.drive?.summary}
+                keywords={[status.volumeUUID]}
+                icon={{
+                  source: stale ? Icon.Warning : Icon.HardDrive,
+                  tintColor: stale ? Color.Orange : mounted ? Color.Green : Color.SecondaryText,
+                }}
+                accessories={accessories}
+                actions={
+                  <ActionPanel>
+                    {mounted && (
+                      <Action title="Open in Finder" icon={Icon.Finder} onAction={() => open(status.mountPoint!)} />
+                    )}
+                    <ActionPanel.Submenu
+                      title="Sort By"
+                      icon={Icon.ArrowDown}
+                      shortcut={{ modifiers: ["cmd"], key: "s" }}
+                    >
+                      {SORT_FIELDS.map(({ field, title }) => (
+                        <Action
+                          key={field}
+                          title={title}
+                          icon={field === sortField ? Icon.Checkmark : undefined}
+                          onAction={() => setSortField(field)}
+                        />
+                      ))}
+                    </ActionPanel.Submenu>
+                    {status.indexFile && (
+                      <Action.Push
+                        title="Export Drive Catalog…"
+                        icon={Icon.Download}
+                        shortcut={{ modifiers: ["cmd"], key: "e" }}
+                        target={
+                          <ExportForm
+                            navigationTitle={`Export ${status.name}`}
+                            baseName={`${status.name.replace(/[/:]/g, "-")}-catalog`}
+                            onExport={(path, format, onProgress) =>
+                              exportDriveCatalog(status.volumeUUID, path, format, { onProgress })
+                            }
+                          />
+                        }
+                      />
+                    )}
+                    <ActionPanel.Section title="Copy">
+                      <Action.CopyToClipboard
+                        title="Copy Volume UUID"
+                        content={status.volumeUUID}
+                        shortcut={Keyboard.Shortcut.Common.Copy}
+                      />
+                      <Action.CopyToClipboard title="Copy Drive Name" content={status.name} />
+                    </ActionPanel.Section>
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      )}
+    </List>
+  );
+}
+
+/**
+ * Orders drives by a sort field; unknown values always sort last
+ */
+function compareStatuses(a: DriveStatus, b: DriveStatus, field: SortField, entryCounts: Map<string, number>): number {
+  const valueOf = (status: DriveStatus): number | undefined => {
+    switch (field) {
+      case "freeSpace":
+        return status.drive?.availableSize;
+      case "usedSpace":
+        return getUsedFraction(status) ?? undefined;
+      case "lastSeen":
+        return status.lastSeen?.getTime();
+      case "indexAge":
+        // Oldest index first
+        return status.indexedAt ? -status.indexedAt.getTime() : undefined;
+      case "entries":
+        return entryCounts.get(status.volumeUUID);
+      default:
+        return undefined;
+    }
+  };
+
+  if (field === "name") {
+    return a.name.localeCompare(b.name);
+  }
+
+  const va = valueOf(a);
+  const vb = valueOf(b);
+  if (va === undefined || vb === undefined) {
+    return va === vb ? 0 : va === undefined ? 1 : -1;
+  }
+  // Largest (or most recent) first
+  return vb - va;
+}
@@ -0,0 +1,122 @@
+import { decodeVolumeUUID, loadDriveInfo } from "./drivebuddy";
+import { foldText, normalizeText } from "./normalize";
+import { getEntryKind, getSearchCache } from "./searchCache";
+import { DriveBuddyDataSource, getDataSource } from "./dataSource";
+import { escapeCsv } from "./format";
+
+export interface DuplicateCopy {
+  driveUUID: string;
+  driveName: string;
+  relativePath: string;
+}
+
+/**
+ * Files that share a normalized name (and, optionally, relative path) across all indexed drives
+ */
+export interface DuplicateGroup {
+  key: string;
+  name: string;
+  copies: DuplicateCopy[];
+  // Distinct drives holding a copy; 1 means the file exists on a single drive only
+  driveCount: number;
+}
+
+export interface DuplicateScanOptions {
+  /**
+   * Group by relative path as well as filename, so only copies in the same place match
+   */
+  matchPath?: boolean;
+  source?: DriveBuddyDataSource;
+  signal?: AbortSignal;
+  /**
+   * Called after each drive's index has been scanned
+   */
+  onProgress?: (scanned: number, total: number) => void;
+}
+
+/**
+ * Groups the files of every indexed drive by normalized filename
+ *
+ * Names are compared after Unicode, case, diacritic and separator folding, so
+ * "Clip_001.MOV" and "clip 001.mov" are the same file. Folders are skipped.
+ * Returns every group, including files found on only one drive.
+ */
+export async function findDuplicates(options: DuplicateScanOptions = {}): Promise<DuplicateGroup[]> {
+  const { matchPath = false, source = getDataSource(), signal, onProgress } = options;
+  const driveInfo = loadDriveInfo(source);
+  const indexFiles = source.listIndexFiles().map(({ file }) => file);
+  const groups = new Map<string, DuplicateGroup>();
+
+  for (let i = 0; i < indexFiles.length; i++) {
+    signal?.throwIfAborted();
+    const file = indexFiles[i];
+    const driveUUID = decodeVolumeUUID(file);
+    const driveName = driveInfo.get(driveUUID)?.name || "Unknown Drive";
+
+    try {
+      const cache = await getSearchCache(source, file);
+      for (let id = 0; id < cache.names.length; id++) {
+        if (getEntryKind(cache, id) === "folder") continue;
+
+        const name = cache.names[id];
+        const relativePath = cache.paths[id];
+        const key = matchPath ? `${normalizeText(name)}\0${foldText(relativePath)}` : normalizeText(name);
+
+        let group = groups.get(key);
+        if (!group) {
+          group = { key, name, copies: [], driveCount: 0 };
+          groups.set(key, group);
+        }
+        group.copies.push({ driveUUID, driveName, relativePath });
+      }
+    } catch (error) {
+      console.error(`Failed to scan ${file} for duplicates:`, error);
+    }
+
+    onProgress?.(i + 1, indexFiles.length);
+  }
+
+  const result = Array.from(groups.values());
+  for (const group of result) {
+    group.driveCount = new Set(group.copies.map((copy) => copy.driveUUID)).size;
+  }
+  return result;
+}
+
+/**
+ * Groups held by two or more drives, most widely copied first
+ */
+export function getDuplicatedGroups(groups: DuplicateGroup[]): DuplicateGroup[] {
+  return groups
+    .filter((group) => group.driveCount > 1)
+    .sort((a, b) => b.driveCount - a.driveCount || a.name.localeCompare(b.name));
+}
+
+/**
+ * Groups held by exactly one drive: the single points of failure
+ */
+export function getSingleCopyGroups(groups: DuplicateGroup[]): DuplicateGroup[] {
+  return groups.filter((group) => group.driveCount === 1).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Number of files across the groups, counting every copy
+ */
+export function countCopies(groups: DuplicateGroup[]): number {
+  return groups.reduce((total, group) => total + group.copies.length, 0);
+}
+
+/**
+ * Formats groups as CSV, one row per copy
+ */
+export function duplicatesToCsv(groups: DuplicateGroup[]): string {
+  const rows = [["Name", "Drive Count", "Drive", "Volume UUID", "Relative Path"].join(",")];
+  for (const group of groups) {
+    for (const copy of group.copies) {
+      rows.push(
+        [group.name, group.driveCount, copy.driveName, copy.driveUUID, copy.relativePath].map(escapeCsv).join(",")
+      );
+    }
+  }
+  return rows.join("\n") + "\n";
+}
@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { List, Action, ActionPanel, Icon, Color, Clipboard, showToast, Toast } from "@raycast/api";
+import { writeFile } from "fs/promises";
+import {
+  DuplicateGroup,
+  countCopies,
+  duplicatesToCsv,
+  findDuplicates,
+  getDuplicatedGroups,
+  getSingleCopyGroups,
+} from "./duplicateFinder";
+import { ExportForm } from "./exportForm";
+import { FileActions } from "./fileActions";
+import { formatCount } from "./format";
+import { normalizeText } from "./normalize";
+import { configureDataSource } from "./preferences";
+
+type DuplicateView = "duplicated" | "single";
+
+// Rendering is capped; filtering and export always cover every group
+const MAX_VISIBLE_GROUPS = 500;
+
+export default function Command() {
+  configureDataSource();
+
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [progress, setProgress] = useState("");
+  const [view, setView] = useState<DuplicateView>("duplicated");
+  const [matchPath, setMatchPath] = useState(false);
+  const [searchText, setSearchText] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    findDuplicates({
+      matchPath,
+      signal: controller.signal,
+      onProgress: (scanned, total) => setProgress(`Scanned ${scanned} of ${total} drives`),
+    })
+      .then((found) => {
+        if (!controller.signal.aborted) {
+          setGroups(found);
+        }
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error("Duplicate scan failed:", error);
+        showToast({ style: Toast.Style.Failure, title: "Duplicate Scan Failed", message: String(error) });
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [matchPath]);
+
+  const viewGroups = useMemo(
+    () => (view === "duplicated" ? getDuplicatedGroups(groups) : getSingleCopyGroups(groups)),
+    [groups, view]
+  );
+  const filterText = normalizeText(searchText);
+  const matching = filterText
+    ? viewGroups.filter((group) => normalizeText(group.name).includes(filterText))
+    : viewGroups;
+  const visible = matching.slice(0, MAX_VISIBLE_GROUPS);
+
+  const exportCsv = async (path: string) => {
+    await writeFile(path, duplicatesToCsv(matching), "utf8");
+    return countCopies(matching);
+  };
+
+  const sharedActions = (
+    <>
+      <ActionPanel.Section title="Export">
+        <Action.Push
+          title="Export as CSV…"
+          icon={Icon.Download}
+          shortcut={{ modifiers: ["cmd"], key: "e" }}
+          target={
+            <ExportForm
+              navigationTitle={view === "duplicated" ? "Export Duplicates" : "Export Single Copies"}
+              baseName={`drivebuddy-${view === "duplicated" ? "duplicates" : "single-copies"}`}
+              formats={["csv"]}
+              onExport={exportCsv}
+            />
+          }
+        />
+        <Action
+          title="Copy as CSV"
+          icon={Icon.Clipboard}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+          onAction={async () => {
+            await Clipboard.copy(duplicatesToCsv(matching));
+            const files = formatCount(countCopies(matching));
+            await showToast({ style: Toast.Style.Success, title: `Copied ${files} files` });
+          }}
+        />
+      </ActionPanel.Section>
+      <ActionPanel.Section title="Matching">
+        <Action
+          title={matchPath ? "Match by Name Only" : "Match by Name and Path"}
+          icon={Icon.Switch}
+          shortcut={{ modifiers: ["cmd"], key: "p" }}
+          onAction={() => setMatchPath(!matchPath)}
+        />
+      </ActionPanel.Section>
+    </>
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      filtering={false}
+      onSearchTextChange={setSearchText}
+      searchBarPlaceholder="Filter by filename..."
+      searchBarAccessory={
+        <List.Dropdown tooltip="Show" storeValue onChange={(value) => setView(value as DuplicateView)}>
+          <List.Dropdown.Item title="On Several Drives" value="duplicated" icon={Icon.Layers} />
+          <List.Dropdown.Item title="On One Drive Only" value="single" icon={Icon.Warning} />
+        </List.Dropdown>
+      }
+    >
+      {visible.length === 0 ? (
+        <List.EmptyView
+          icon={view === "duplicated" ? Icon.Layers : Icon.CheckCircle}
+          title={
+            isLoading ? progress || "Scanning Drives..." : view === "duplicated" ? "No Duplicates" : "No Single Copies"
+          }
+          description={
+            isLoading
+              ? "Reading every drive's index"
+              : view === "duplicated"
+                ? "No file was found on more than one drive"
+                : "Every file exists on at least two drives"
+          }
+          actions={<ActionPanel>{sharedActions}</ActionPanel>}
+        />
+      ) : (
+        <List.Section
+          title={view === "duplicated" ? "Files on Several Drives" : "Files on One Drive Only"}
+          subtitle={
+            matching.length > visible.length
+              ? `${formatCount(visible.length)} of ${formatCount(matching.length)}`
+              : formatCount(matching.length)
+          }
+        >
+          {visible.map((group) => {
+            const drives = Array.from(new Set(group.copies.map((copy) => copy.driveName)));
+            const single = group.driveCount === 1;
+
+            return (
+              <List.Item
+                key={group.key}
+                title={group.name}
+                subtitle={group.copies[0].relativePath}
+                icon={{ source: single ? Icon.Warning : Icon.Layers, tintColor: single ? Color.Orange : Color.Blue }}
+                accessories={[
+                  { text: drives.join(", "), tooltip: drives.join("\n") },
+                  {
+                    tag: {
+                      value: `${group.driveCount} ${group.driveCount === 1 ? "drive" : "drives"}`,
+                      color: single ? Color.Orange : Color.Green,
+                    },
+                  },
+                ]}
+                actions={
+                  <ActionPanel>
+                    <Action.Push title="Show Copies" icon={Icon.List} target={<CopyList group={group} />} />
+                    {sharedActions}
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      )}
+    </List>
+  );
+}
+
+/**
+ * Every copy of one file, with the usual file actions
+ */
+function CopyList({ group }: { group: DuplicateGroup }) {
+  return (
+    <List navigationTitle={group.name}>
+      {group.copies.map((copy) => (
+        <List.Item
+          key={`${copy.driveUUID}-${copy.relativePath}`}
+          title={copy.driveName}
+          subtitle={copy.relativePath}
+          icon={Icon.HardDrive}
+          actions={
+            <ActionPanel>
+              <FileActions
+                driveUUID={copy.driveUUID}
+                driveName={copy.driveName}
+                entry={{ name: group.name, relativePath: copy.relativePath }}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,89 @@
+import React from "react";
+import { homedir } from "os";
+import { join } from "path";
+import { Action, ActionPanel, Form, Icon, showInFinder, showToast, Toast, useNavigation } from "@raycast/api";
+import { EXPORT_FORMATS, ExportFormat } from "./catalogExport";
+import { getAvailablePath } from "./paths";
+import { formatCount } from "./format";
+
+interface ExportFormProps {
+  navigationTitle: string;
+  /**
+   * Filename without extension; the date is appended
+   */
+  baseName: string;
+  /**
+   * Formats to offer; defaults to every export format
+   */
+  formats?: ExportFormat[];
+  /**
+   * Writes the export and resolves to the number of rows written
+   */
+  onExport: (path: string, format: ExportFormat, onProgress: (rows: number) => void) => Promise<number>;
+}
+
+interface ExportValues {
+  format: ExportFormat;
+  folder: string[];
+}
+
+/**
+ * Asks for a format and folder, then writes the export with a progress toast
+ */
+export function ExportForm({ navigationTitle, baseName, formats, onExport }: ExportFormProps) {
+  const { pop } = useNavigation();
+  const choices = formats ? EXPORT_FORMATS.filter(({ format }) => formats.includes(format)) : EXPORT_FORMATS;
+
+  const handleSubmit = async (values: ExportValues) => {
+    const folder = values.folder[0] ?? join(homedir(), "Downloads");
+    const extension = EXPORT_FORMATS.find((f) => f.format === values.format)?.extension ?? values.format;
+    const stamp = new Date().toISOString().slice(0, 10);
+    const path = getAvailablePath(folder, `${baseName}-${stamp}.${extension}`);
+
+    pop();
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Exporting…" });
+    try {
+      const rows = await onExport(path, values.format, (written) => {
+        toast.message = `${formatCount(written)} entries written`;
+      });
+      toast.style = Toast.Style.Success;
+      toast.title = `Exported ${formatCount(rows)} entries`;
+      toast.message = path;
+      toast.primaryAction = { title: "Show in Finder", onAction: () => showInFinder(path) };
+    } catch (error) {
+      console.error("Failed to export:", error);
+      toast.style = Toast.Style.Failure;
+      toast.title = "Export Failed";
+      toast.message = String(error);
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={navigationTitle}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Export" icon={Icon.Download} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown id="format" title="Format" storeValue>
+        {choices.map(({ format, title }) => (
+          <Form.Dropdown.Item key={format} value={format} title={title} />
+        ))}
+      </Form.Dropdown>
+      <Form.FilePicker
+        id="folder"
+        title="Folder"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        defaultValue={[join(homedir(), "Downloads")]}
+        storeValue
+      />
+      {choices.some(({ format }) => format === "markdown") && (
+        <Form.Description text="Markdown exports are sorted into a folder tree; CSV and JSON keep the list order." />
+      )}
+    </Form>
+  );
+}
@@ -0,0 +1,84 @@
+import React from "react";
+import { Action, ActionPanel, Form, Icon, Keyboard, showToast, Toast, useNavigation } from "@raycast/api";
+import { EntryKind, SearchEntry } from "./drivebuddy";
+import { Favorite, listTags, loadFavorites, parseTags, setPinned, setTags } from "./favorites";
+
+interface FavoriteActionsProps {
+  driveUUID: string;
+  entry: SearchEntry;
+  kind?: EntryKind;
+  favorite?: Favorite;
+  onChange: () => void;
+}
+
+/**
+ * Pin and tag actions for a drive entry
+ * The list passes the entry's current favorite and reloads its favorites in onChange
+ */
+export function FavoriteActions({ driveUUID, entry, kind = "file", favorite, onChange }: FavoriteActionsProps) {
+  const pinned = favorite?.pinnedAt != null;
+
+  const togglePin = async () => {
+    setPinned(driveUUID, entry.relativePath, !pinned, kind);
+    onChange();
+    await showToast({ style: Toast.Style.Success, title: pinned ? "Unpinned" : "Pinned", message: entry.name });
+  };
+
+  return (
+    <ActionPanel.Section title="Favorites">
+      <Action
+        title={pinned ? "Unpin" : "Pin"}
+        icon={pinned ? Icon.PinDisabled : Icon.Pin}
+        shortcut={Keyboard.Shortcut.Common.Pin}
+        onAction={togglePin}
+      />
+      <Action.Push
+        title="Edit Tags"
+        icon={Icon.Tag}
+        shortcut={{ modifiers: ["cmd"], key: "t" }}
+        target={
+          <TagForm driveUUID={driveUUID} entry={entry} kind={kind} tags={favorite?.tags ?? []} onChange={onChange} />
+        }
+      />
+    </ActionPanel.Section>
+  );
+}
+
+interface TagFormProps {
+  driveUUID: string;
+  entry: SearchEntry;
+  kind: EntryKind;
+  tags: string[];
+  onChange: () => void;
+}
+
+function TagForm({ driveUUID, entry, kind, tags, onChange }: TagFormProps) {
+  const { pop } = useNavigation();
+  const knownTags = listTags(loadFavorites());
+
+  const handleSubmit = (values: { tags: string }) => {
+    setTags(driveUUID, entry.relativePath, parseTags(values.tags), kind);
+    onChange();
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle={`Tags for ${entry.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Tags" icon={Icon.Tag} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="tags"
+        title="Tags"
+        placeholder="client-delivery, masters"
+        info="Separate tags with commas. Search them with tag:name"
+        defaultValue={tags.join(", ")}
+      />
+      {knownTags.length > 0 && <Form.Description title="Tags in Use" text={knownTags.join(", ")} />}
+    </Form>
+  );
+}
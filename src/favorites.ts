@@ -0,0 +1,162 @@
+import type { EntryKind } from "./drivebuddy";
+import { DriveBuddyDataSource, getDataSource } from "./dataSource";
+import { foldText } from "./normalize";
+
+/**
+ * A pinned or tagged file or folder
+ * Entries that are neither pinned nor tagged are dropped from the store
+ */
+export interface Favorite {
+  driveUUID: string;
+  relativePath: string;
+  kind: EntryKind;
+  pinnedAt: number | null; // Timestamp, or null when only tagged
+  tags: string[];
+}
+
+export interface FavoritesStore {
+  items: Favorite[];
+}
+
+/**
+ * Folded tags of one drive's entries, keyed by relative path
+ * Plain data so it can be posted to a worker thread with a search job
+ */
+export type EntryTags = Record<string, string[]>;
+
+/**
+ * Loads pinned and tagged entries from disk
+ */
+export function loadFavorites(source: DriveBuddyDataSource = getDataSource()): FavoritesStore {
+  try {
+    const content = source.readFavorites();
+    if (content === null) {
+      return { items: [] };
+    }
+    return JSON.parse(content) as FavoritesStore;
+  } catch (error) {
+    console.error("Failed to load favorites:", error);
+    return { items: [] };
+  }
+}
+
+/**
+ * Saves the favorites to disk
+ */
+function saveFavorites(store: FavoritesStore, source: DriveBuddyDataSource): void {
+  try {
+    source.writeFavorites(JSON.stringify(store, null, 2));
+  } catch (error) {
+    console.error("Failed to save favorites:", error);
+  }
+}
+
+/**
+ * Finds the favorite for an entry, if it is pinned or tagged
+ */
+export function findFavorite(store: FavoritesStore, driveUUID: string, relativePath: string): Favorite | undefined {
+  return store.items.find((item) => item.driveUUID === driveUUID && item.relativePath === relativePath);
+}
+
+/**
+ * Applies a change to an entry's favorite, creating it if needed, and saves the store
+ */
+function updateFavorite(
+  driveUUID: string,
+  relativePath: string,
+  kind: EntryKind,
+  source: DriveBuddyDataSource,
+  change: (favorite: Favorite) => void
+): void {
+  const store = loadFavorites(source);
+  let favorite = findFavorite(store, driveUUID, relativePath);
+
+  if (!favorite) {
+    favorite = { driveUUID, relativePath, kind, pinnedAt: null, tags: [] };
+    store.items.push(favorite);
+  }
+  change(favorite);
+
+  store.items = store.items.filter((item) => item.pinnedAt !== null || item.tags.length > 0);
+  saveFavorites(store, source);
+}
+
+/**
+ * Pins or unpins a file or folder
+ */
+export function setPinned(
+  driveUUID: string,
+  relativePath: string,
+  pinned: boolean,
+  kind: EntryKind = "file",
+  source: DriveBuddyDataSource = getDataSource()
+): void {
+  updateFavorite(driveUUID, relativePath, kind, source, (favorite) => {
+    favorite.pinnedAt = pinned ? Date.now() : null;
+  });
+}
+
+/**
+ * Replaces an entry's tags; duplicates that differ only in case or accents are dropped
+ */
+export function setTags(
+  driveUUID: string,
+  relativePath: string,
+  tags: string[],
+  kind: EntryKind = "file",
+  source: DriveBuddyDataSource = getDataSource()
+): void {
+  const seen = new Set<string>();
+  const unique = tags
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const folded = foldText(tag);
+      if (!folded || seen.has(folded)) return false;
+      seen.add(folded);
+      return true;
+    });
+
+  updateFavorite(driveUUID, relativePath, kind, source, (favorite) => {
+    favorite.tags = unique;
+  });
+}
+
+/**
+ * Parses comma-separated tags as typed by the user
+ */
+export function parseTags(input: string): string[] {
+  return input.split(",").map((tag) => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Every tag in use, sorted, for suggestions
+ */
+export function listTags(store: FavoritesStore): string[] {
+  const tags = new Map<string, string>();
+  for (const item of store.items) {
+    for (const tag of item.tags) {
+      if (!tags.has(foldText(tag))) tags.set(foldText(tag), tag);
+    }
+  }
+  return Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Folded tags of every tagged entry, grouped by drive UUID, for `tag:` filters
+ */
+export function getEntryTags(store: FavoritesStore): Map<string, EntryTags> {
+  const tags = new Map<string, EntryTags>();
+
+  for (const item of store.items) {
+    if (item.tags.length === 0) continue;
+
+    let driveTags = tags.get(item.driveUUID);
+    if (!driveTags) {
+      driveTags = {};
+      tags.set(item.driveUUID, driveTags);
+    }
+    driveTags[item.relativePath] = item.tags.map(foldText);
+  }
+
+  return tags;
+}
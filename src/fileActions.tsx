@@ -0,0 +1,96 @@
+import React from "react";
+import { Action, ActionPanel, Icon, Keyboard, showToast, Toast, open } from "@raycast/api";
+import { EntryKind, SearchEntry, getFullPath, getMountPoint, recordFileAccess } from "./drivebuddy";
+import { requestRetrieval } from "./retrievalQueue";
+
+interface FileActionsProps {
+  driveUUID: string;
+  driveName: string;
+  entry: SearchEntry;
+  kind?: EntryKind;
+}
+
+/**
+ * Action sections shared by every command that lists drive entries
+ * Finder actions are only offered while the drive is mounted, and retrieval requests
+ * only while it is offline; copy actions always are
+ */
+export function FileActions({ driveUUID, driveName, entry, kind = "file" }: FileActionsProps) {
+  const fullPath = getFullPath(driveUUID, entry.relativePath);
+  const mountPoint = getMountPoint(driveUUID);
+  const mounted = mountPoint !== null;
+
+  const handleRevealInFinder = async () => {
+    recordFileAccess(driveUUID, entry.relativePath);
+    await open(fullPath, "Finder");
+  };
+
+  const handleOpenFile = async () => {
+    recordFileAccess(driveUUID, entry.relativePath);
+    await open(fullPath);
+  };
+
+  const handleRequest = async () => {
+    const queued = requestRetrieval(driveUUID, driveName, entry.relativePath, kind);
+    await showToast({
+      style: Toast.Style.Success,
+      title: queued ? "Requested" : "Already Requested",
+      message: `You'll be notified when ${driveName} connects`,
+    });
+  };
+
+  return (
+    <>
+      {mounted && (
+        <ActionPanel.Section title="File Actions">
+          <Action title="Reveal in Finder" icon={Icon.Finder} onAction={handleRevealInFinder} />
+          <Action
+            title={kind === "folder" ? "Open in Finder" : "Open File"}
+            icon={kind === "folder" ? Icon.Folder : Icon.Document}
+            shortcut={Keyboard.Shortcut.Common.Open}
+            onAction={handleOpenFile}
+          />
+        </ActionPanel.Section>
+      )}
+
+      {!mounted && (
+        <ActionPanel.Section title="File Actions">
+          <Action
+            title="Request When Connected"
+            icon={Icon.Download}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+            onAction={handleRequest}
+          />
+        </ActionPanel.Section>
+      )}
+
+      <ActionPanel.Section title="Copy">
+        <Action.CopyToClipboard title="Copy Full Path" content={fullPath} shortcut={Keyboard.Shortcut.Common.Copy} />
+        <Action.CopyToClipboard
+          title="Copy Relative Path"
+          content={entry.relativePath}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+        />
+        <Action.CopyToClipboard
+          title="Copy Filename"
+          content={entry.name}
+          shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
+        />
+      </ActionPanel.Section>
+
+      <ActionPanel.Section title="Info">
+        <Action
+          title={mounted ? "Drive Connected" : "Drive Offline"}
+          icon={mounted ? Icon.CircleFilled : Icon.Circle}
+          onAction={() =>
+            showToast({
+              style: mounted ? Toast.Style.Success : Toast.Style.Animated,
+              title: mounted ? `${driveName} is connected` : `${driveName} is offline`,
+              message: mounted ? `Available at ${mountPoint}` : "Connect the drive to access files",
+            })
+          }
+        />
+      </ActionPanel.Section>
+    </>
+  );
+}
@@ -0,0 +1,124 @@
+import { EntryKind, SearchEntry, findIndexFile } from "./drivebuddy";
+import { SearchCache, getEntryKind, getSearchCache } from "./searchCache";
+import { DriveBuddyDataSource, getDataSource } from "./dataSource";
+
+/**
+ * A folder in a drive's hierarchy, reconstructed from index relative paths
+ */
+export interface FolderNode {
+  name: string;
+  // "" for the drive root
+  relativePath: string;
+  folders: Map<string, FolderNode>;
+  files: SearchEntry[];
+  // Files anywhere below this folder
+  totalFiles: number;
+}
+
+function createFolder(name: string, relativePath: string): FolderNode {
+  return { name, relativePath, folders: new Map(), files: [], totalFiles: 0 };
+}
+
+/**
+ * Builds a folder tree from index entries
+ *
+ * Parent folders are created from each path even when the index has no entry
+ * for them. An entry whose path turns out to be a folder, or whose kind says
+ * it is one, is not listed as a file.
+ */
+export function buildFolderTree(entries: Iterable<SearchEntry & { kind?: EntryKind }>): FolderNode {
+  const root = createFolder("", "");
+  const leaves: { parent: FolderNode; segments: string[]; entry: SearchEntry & { kind?: EntryKind } }[] = [];
+
+  for (const entry of entries) {
+    const segments = entry.relativePath.split("/").filter((segment) => segment.length > 0);
+    if (segments.length === 0) continue;
+
+    let node = root;
+    for (let i = 0; i < segments.length - 1; i++) {
+      let child = node.folders.get(segments[i]);
+      if (!child) {
+        child = createFolder(segments[i], segments.slice(0, i + 1).join("/"));
+        node.folders.set(segments[i], child);
+      }
+      node = child;
+    }
+    leaves.push({ parent: node, segments, entry });
+  }
+
+  // Folders are only known once every path has been seen, so files are placed afterwards
+  for (const { parent, segments, entry } of leaves) {
+    const segment = segments[segments.length - 1];
+    if (entry.kind === "folder") {
+      if (!parent.folders.has(segment)) {
+        parent.folders.set(segment, createFolder(segment, segments.join("/")));
+      }
+    } else if (!parent.folders.has(segment)) {
+      parent.files.push({ name: entry.name, relativePath: entry.relativePath });
+    }
+  }
+
+  countFiles(root);
+  return root;
+}
+
+function countFiles(folder: FolderNode): number {
+  let total = folder.files.length;
+  folder.folders.forEach((child) => (total += countFiles(child)));
+  folder.totalFiles = total;
+  return total;
+}
+
+/**
+ * Finds a folder by relative path, or null if the tree has no such folder
+ */
+export function findFolder(root: FolderNode, relativePath: string): FolderNode | null {
+  let node: FolderNode | undefined = root;
+  for (const segment of relativePath.split("/").filter((s) => s.length > 0)) {
+    node = node.folders.get(segment);
+    if (!node) return null;
+  }
+  return node;
+}
+
+/**
+ * Subfolders and files of a folder, each sorted by name
+ */
+export function listFolder(folder: FolderNode): { folders: FolderNode[]; files: SearchEntry[] } {
+  const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+  return {
+    folders: Array.from(folder.folders.values()).sort(byName),
+    files: [...folder.files].sort(byName),
+  };
+}
+
+// Trees are rebuilt only when the drive's search cache is
+const folderTrees = new WeakMap<SearchCache, FolderNode>();
+
+/**
+ * Loads the folder tree of an indexed drive, or null if the drive has no index
+ * Works whether or not the drive is connected
+ */
+export async function loadFolderTree(
+  driveUUID: string,
+  source: DriveBuddyDataSource = getDataSource()
+): Promise<FolderNode | null> {
+  const indexFile = findIndexFile(driveUUID, source);
+  if (!indexFile) {
+    return null;
+  }
+
+  const cache = await getSearchCache(source, indexFile);
+  let tree = folderTrees.get(cache);
+  if (!tree) {
+    tree = buildFolderTree(cacheEntries(cache));
+    folderTrees.set(cache, tree);
+  }
+  return tree;
+}
+
+function* cacheEntries(cache: SearchCache): Generator<SearchEntry & { kind: EntryKind }> {
+  for (let i = 0; i < cache.names.length; i++) {
+    yield { name: cache.names[i], relativePath: cache.paths[i], kind: getEntryKind(cache, i) };
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Display formatting shared by the extension's commands
+ */
+
+const BYTE_UNITS = ["bytes", "KB", "MB", "GB", "TB", "PB"];
+
+/**
+ * Formats a byte count in decimal units, as Finder does: 1500000000 becomes "1.5 GB"
+ */
+export function formatBytes(bytes: number): string {
+  if (!Number.isFinite(bytes) || bytes < 1000) {
+    return `${Math.max(0, Math.round(bytes || 0))} bytes`;
+  }
+
+  const exponent = Math.min(Math.floor(Math.log10(bytes) / 3), BYTE_UNITS.length - 1);
+  const value = bytes / Math.pow(1000, exponent);
+  return `${value >= 100 ? value.toFixed(0) : value.toFixed(1)} ${BYTE_UNITS[exponent]}`;
+}
+
+/**
+ * Formats how long ago a date was: "just now", "5 minutes ago", "3 days ago", "2 years ago"
+ */
+export function formatAge(date: Date, now: number = Date.now()): string {
+  const seconds = Math.max(0, (now - date.getTime()) / 1000);
+  const units: [string, number][] = [
+    ["year", 365 * 24 * 3600],
+    ["month", 30 * 24 * 3600],
+    ["week", 7 * 24 * 3600],
+    ["day", 24 * 3600],
+    ["hour", 3600],
+    ["minute", 60],
+  ];
+
+  for (const [unit, size] of units) {
+    const count = Math.floor(seconds / size);
+    if (count >= 1) {
+      return `${count} ${unit}${count === 1 ? "" : "s"} ago`;
+    }
+  }
+  return "just now";
+}
+
+/**
+ * Formats a count with thousands separators: 1234567 becomes "1,234,567"
+ */
+export function formatCount(count: number): string {
+  return count.toLocaleString("en-US");
+}
+
+/**
+ * Escapes characters that Markdown would treat as formatting, for names shown as plain text
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, "\\$1");
+}
+
+/**
+ * Quotes a CSV field when it contains a comma, quote or line break
+ */
+export function escapeCsv(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,65 @@
+import type { AccessHistory, ClickHistory } from "./drivebuddy";
+
+/**
+ * Points added to the match score (0–100) of the most frequently and recently opened files
+ */
+export const DEFAULT_FRECENCY_WEIGHT = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An access counts half as much after this many days
+const HALF_LIFE_DAYS = 14;
+
+// Decayed access count at which a file earns half the full boost
+const HALF_BOOST_ACCESSES = 3;
+
+/**
+ * Boost points for one drive's files, keyed by relative path
+ * Plain data so it can be posted to a worker thread with a search job
+ */
+export type FrecencyBoosts = Record<string, number>;
+
+/**
+ * Access count with exponential time decay, so a file opened five times
+ * last month ranks below one opened five times this week
+ */
+export function calculateFrecency(access: AccessHistory, now: number = Date.now()): number {
+  const ageDays = Math.max(0, now - access.lastAccessed) / DAY_MS;
+  return access.accessCount * Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+}
+
+/**
+ * Maps a frecency onto 0–weight points; the boost saturates so heavy use
+ * can lift a file above similar matches but not above much better ones
+ */
+export function getFrecencyBoost(frecency: number, weight: number): number {
+  if (!(weight > 0) || frecency <= 0) {
+    return 0;
+  }
+  return (weight * frecency) / (frecency + HALF_BOOST_ACCESSES);
+}
+
+/**
+ * Boosts for every file in the click history, grouped by drive UUID
+ */
+export function getFrecencyBoosts(
+  history: ClickHistory,
+  weight: number = DEFAULT_FRECENCY_WEIGHT,
+  now: number = Date.now()
+): Map<string, FrecencyBoosts> {
+  const boosts = new Map<string, FrecencyBoosts>();
+
+  for (const access of history.files) {
+    const boost = getFrecencyBoost(calculateFrecency(access, now), weight);
+    if (boost <= 0) continue;
+
+    let driveBoosts = boosts.get(access.driveUUID);
+    if (!driveBoosts) {
+      driveBoosts = {};
+      boosts.set(access.driveUUID, driveBoosts);
+    }
+    driveBoosts[access.relativePath] = boost;
+  }
+
+  return boosts;
+}
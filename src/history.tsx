@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from "react";
+import { List, Action, ActionPanel, Icon, Color, Clipboard, showToast, Toast } from "@raycast/api";
+import { cfAbsoluteTimeToDate, loadDriveInfo } from "./drivebuddy";
+import { IndexChanges, captureSnapshots, getIndexChanges } from "./indexHistory";
+import { SnapshotInfo, listSnapshotDrives, listSnapshots, pruneSnapshots } from "./snapshots";
+import { getDataSource } from "./dataSource";
+import { formatAge, formatCount } from "./format";
+import { configureDataSource } from "./preferences";
+
+interface DriveHistory {
+  driveUUID: string;
+  name: string;
+  snapshots: SnapshotInfo[];
+}
+
+// Rendering is capped; copied path lists always cover every change
+const MAX_VISIBLE_CHANGES = 500;
+
+/**
+ * Lists drives with recorded scans; each opens its scan history
+ */
+export default function Command() {
+  configureDataSource();
+
+  const [drives, setDrives] = useState<DriveHistory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const source = getDataSource();
+      try {
+        await captureSnapshots(source);
+        // Applies the Scans to Keep preference, which configureDataSource has validated
+        pruneSnapshots(source);
+      } catch (error) {
+        console.error("Failed to update index history:", error);
+        showToast({ style: Toast.Style.Failure, title: "Failed to Update History", message: String(error) });
+      }
+
+      const driveInfo = loadDriveInfo(source);
+      const histories = listSnapshotDrives(source)
+        .map((driveUUID) => ({
+          driveUUID,
+          name: driveInfo.get(driveUUID)?.name || "Unknown Drive",
+          snapshots: listSnapshots(source, driveUUID),
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      if (!cancelled) {
+        setDrives(histories);
+        setIsLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Filter drives...">
+      {!isLoading && drives.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.Clock}
+          title="No Index History Yet"
+          description="Scans are recorded as DriveBuddy re-indexes your drives"
+        />
+      ) : (
+        drives.map((drive) => (
+          <List.Item
+            key={drive.driveUUID}
+            title={drive.name}
+            icon={Icon.HardDrive}
+            accessories={[
+              { text: `${drive.snapshots.length} ${drive.snapshots.length === 1 ? "scan" : "scans"}` },
+              { date: cfAbsoluteTimeToDate(drive.snapshots[0].generatedAt), tooltip: "Latest scan" },
+            ]}
+            actions={
+              <ActionPanel>
+                <Action.Push title="Show Scans" icon={Icon.Clock} target={<ScanList drive={drive} />} />
+              </ActionPanel>
+            }
+          />
+        ))
+      )}
+    </List>
+  );
+}
+
+/**
+ * A drive's scans, newest first, each with its changes since the scan before it
+ */
+function ScanList({ drive }: { drive: DriveHistory }) {
+  const [changes, setChanges] = useState<Map<number, IndexChanges | null>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Snapshots can be large, so diffs are computed one at a time after the list is shown
+    (async () => {
+      for (let i = 0; i < drive.snapshots.length - 1; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (cancelled) return;
+        const { generatedAt } = drive.snapshots[i];
+        const diff = getIndexChanges(drive.driveUUID, drive.snapshots[i + 1].generatedAt, generatedAt);
+        setChanges((current) => new Map(current).set(generatedAt, diff));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [drive]);
+
+  return (
+    <List navigationTitle={`${drive.name} History`} isLoading={changes.size < drive.snapshots.length - 1}>
+      {drive.snapshots.map((snapshot, i) => {
+        const scannedAt = cfAbsoluteTimeToDate(snapshot.generatedAt);
+        const previous = drive.snapshots[i + 1];
+        const range =
+          previous && `${cfAbsoluteTimeToDate(previous.generatedAt).toLocaleString()} → ${scannedAt.toLocaleString()}`;
+        const diff = changes.get(snapshot.generatedAt);
+        const accessories: List.Item.Accessory[] = [];
+
+        if (!previous) {
+          accessories.push({ text: "Earliest recorded scan" });
+        } else if (diff) {
+          accessories.push(
+            { tag: { value: `+${formatCount(diff.added.length)}`, color: Color.Green }, tooltip: "Added" },
+            { tag: { value: `−${formatCount(diff.removed.length)}`, color: Color.Red }, tooltip: "Removed" }
+          );
+        } else if (diff === null) {
+          accessories.push({ text: "Snapshot unreadable" });
+        }
+
+        return (
+          <List.Item
+            key={snapshot.generatedAt}
+            title={scannedAt.toLocaleString()}
+            subtitle={formatAge(scannedAt)}
+            icon={Icon.Clock}
+            accessories={accessories}
+            actions={
+              diff ? (
+                <ActionPanel>
+                  <Action.Push
+                    title="Show Changes"
+                    icon={Icon.List}
+                    target={<ChangeList title={`${drive.name}: ${range}`} changes={diff} />}
+                  />
+                </ActionPanel>
+              ) : undefined
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
+
+type ChangeView = "removed" | "added";
+
+/**
+ * Paths added or removed between two scans
+ */
+function ChangeList({ title, changes }: { title: string; changes: IndexChanges }) {
+  const [view, setView] = useState<ChangeView>("removed");
+  const [searchText, setSearchText] = useState("");
+
+  const paths = changes[view];
+  const filterText = searchText.trim().toLowerCase();
+  const matching = filterText ? paths.filter((path) => path.toLowerCase().includes(filterText)) : paths;
+  const visible = matching.slice(0, MAX_VISIBLE_CHANGES);
+
+  const copyPaths = async () => {
+    await Clipboard.copy(matching.join("\n"));
+    await showToast({ style: Toast.Style.Success, title: `Copied ${formatCount(matching.length)} paths` });
+  };
+
+  return (
+    <List
+      navigationTitle={title}
+      filtering={false}
+      onSearchTextChange={setSearchText}
+      searchBarPlaceholder="Filter by path..."
+      searchBarAccessory={
+        <List.Dropdown tooltip="Show" onChange={(value) => setView(value as ChangeView)}>
+          <List.Dropdown.Item title={`Removed (${formatCount(changes.removed.length)})`} value="removed" />
+          <List.Dropdown.Item title={`Added (${formatCount(changes.added.length)})`} value="added" />
+        </List.Dropdown>
+      }
+    >
+      {visible.length === 0 ? (
+        <List.EmptyView icon={Icon.CheckCircle} title={view === "removed" ? "Nothing Removed" : "Nothing Added"} />
+      ) : (
+        <List.Section
+          title={view === "removed" ? "Removed" : "Added"}
+          subtitle={
+            matching.length > visible.length
+              ? `${formatCount(visible.length)} of ${formatCount(matching.length)}`
+              : formatCount(matching.length)
+          }
+        >
+          {visible.map((path) => (
+            <List.Item
+              key={path}
+              title={path.split("/").pop() || path}
+              subtitle={path}
+              icon={{
+                source: view === "removed" ? Icon.MinusCircle : Icon.PlusCircle,
+                tintColor: view === "removed" ? Color.Red : Color.Green,
+              }}
+              actions={
+                <ActionPanel>
+                  <Action.CopyToClipboard title="Copy Relative Path" content={path} />
+                  <Action
+                    title="Copy Listed Paths"
+                    icon={Icon.Clipboard}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+                    onAction={copyPaths}
+                  />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      )}
+    </List>
+  );
+}
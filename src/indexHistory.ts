@@ -0,0 +1,51 @@
+import { decodeVolumeUUID } from "./drivebuddy";
+import { getSearchCache, snapshotSearchCache } from "./searchCache";
+import { loadSnapshot } from "./snapshots";
+import { DriveBuddyDataSource, getDataSource } from "./dataSource";
+
+export interface IndexChanges {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Makes sure every drive's current index has a snapshot
+ *
+ * Snapshots are normally taken whenever a search cache is rebuilt; this
+ * catches drives whose cache predates index history.
+ */
+export async function captureSnapshots(source: DriveBuddyDataSource = getDataSource()): Promise<void> {
+  for (const { file } of source.listIndexFiles()) {
+    try {
+      await snapshotSearchCache(source, file, await getSearchCache(source, file));
+    } catch (error) {
+      console.error(`Failed to capture index snapshot for ${decodeVolumeUUID(file)}:`, error);
+    }
+  }
+}
+
+/**
+ * Paths added and removed between two path lists, each sorted
+ */
+export function diffPaths(older: string[], newer: string[]): IndexChanges {
+  const olderSet = new Set(older);
+  const newerSet = new Set(newer);
+  return {
+    added: newer.filter((path) => !olderSet.has(path)).sort(),
+    removed: older.filter((path) => !newerSet.has(path)).sort(),
+  };
+}
+
+/**
+ * Changes between two scans of a drive, or null if either snapshot is missing
+ */
+export function getIndexChanges(
+  driveUUID: string,
+  olderGeneratedAt: number,
+  newerGeneratedAt: number,
+  source: DriveBuddyDataSource = getDataSource()
+): IndexChanges | null {
+  const older = loadSnapshot(source, driveUUID, olderGeneratedAt);
+  const newer = loadSnapshot(source, driveUUID, newerGeneratedAt);
+  return older && newer ? diffPaths(older.paths, newer.paths) : null;
+}
@@ -0,0 +1,413 @@
+import type { Readable } from "stream";
+import type { EntryKind, SearchEntry } from "./drivebuddy";
+import type { DriveBuddyDataSource } from "./dataSource";
+
+export class IndexParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IndexParseError";
+  }
+}
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+interface Frame {
+  type: "object" | "array";
+  value: JsonValue[] | { [key: string]: JsonValue };
+  // Object frames: whether the next string is a key, the key awaiting its value,
+  // and whether the ":" after that key has been read
+  expectKey: boolean;
+  key: string | null;
+  afterColon: boolean;
+  // Set on the top-level "entries" array, whose items are emitted instead of collected
+  isEntries: boolean;
+}
+
+const LITERALS: Record<string, JsonValue> = { true: true, false: false, null: null };
+
+/**
+ * Incremental JSON parser for DriveBuddy index files
+ *
+ * Feed it text in chunks of any size; it understands strings and escapes, so
+ * names like `report {final}.pdf` or `say \"hi\".txt` can't confuse entry
+ * boundaries, and layout (minified or pretty-printed) doesn't matter.
+ * Items of the top-level "entries" array are handed to onEntry one at a time
+ * and never accumulated; every other top-level value is kept, so generatedAt
+ * is available whether it comes before or after the entries.
+ */
+export class IndexStreamParser {
+  generatedAt: number | undefined;
+  stopped = false;
+
+  private stack: Frame[] = [];
+  private root: JsonValue | undefined;
+  private done = false;
+
+  // Partial token carried across chunk boundaries
+  private pending: "string" | "number" | "literal" | null = null;
+  private buffer = "";
+  private escape = "";
+
+  constructor(private readonly onEntry: (entry: SearchEntry) => boolean | void) {}
+
+  write(chunk: string): void {
+    let i = 0;
+
+    while (i < chunk.length && !this.stopped) {
+      if (this.pending === "string") {
+        i = this.continueString(chunk, i);
+        continue;
+      }
+
+      if (this.pending === "number" || this.pending === "literal") {
+        const pattern = this.pending === "number" ? /[0-9eE.+-]/ : /[a-z]/;
+        while (i < chunk.length && pattern.test(chunk[i])) {
+          this.buffer += chunk[i++];
+        }
+        if (i < chunk.length) {
+          this.finishScalar();
+        }
+        continue;
+      }
+
+      const char = chunk[i];
+      switch (char) {
+        case " ":
+        case "\t":
+        case "\n":
+        case "\r":
+          i++;
+          break;
+        case "{":
+        case "[":
+          this.openContainer(char);
+          i++;
+          break;
+        case "}":
+        case "]":
+          this.closeContainer(char);
+          i++;
+          break;
+        case ",":
+          this.comma();
+          i++;
+          break;
+        case ":":
+          this.colon();
+          i++;
+          break;
+        case '"':
+          this.pending = "string";
+          this.buffer = "";
+          i++;
+          break;
+        default:
+          if (char === "-" || (char >= "0" && char <= "9")) {
+            this.pending = "number";
+          } else if (char >= "a" && char <= "z") {
+            this.pending = "literal";
+          } else {
+            throw new IndexParseError(`Unexpected character ${JSON.stringify(char)}`);
+          }
+          this.buffer = "";
+          break;
+      }
+    }
+  }
+
+  /**
+   * Signals the end of input, flushing a trailing scalar and checking the document is complete
+   */
+  end(): void {
+    if (this.stopped) return;
+
+    if (this.pending === "number" || this.pending === "literal") {
+      this.finishScalar();
+    }
+    if (this.pending === "string" || this.stack.length > 0 || !this.done) {
+      throw new IndexParseError("Unexpected end of index file");
+    }
+
+    const root = this.root;
+    if (root && typeof root === "object" && !Array.isArray(root) && typeof root.generatedAt === "number") {
+      this.generatedAt = root.generatedAt;
+    }
+  }
+
+  private continueString(chunk: string, start: number): number {
+    let i = start;
+
+    while (i < chunk.length) {
+      if (this.escape) {
+        this.escape += chunk[i++];
+        if (this.escape.length === 2 && this.escape !== "\\u") {
+          this.buffer += decodeEscape(this.escape);
+          this.escape = "";
+        } else if (this.escape.length === 6) {
+          this.buffer += String.fromCharCode(parseInt(this.escape.slice(2), 16));
+          this.escape = "";
+        }
+        continue;
+      }
+
+      // Copy the run of plain characters in one go
+      const quote = chunk.indexOf('"', i);
+      const backslash = chunk.indexOf("\\", i);
+      const stop = quote === -1 ? backslash : backslash === -1 ? quote : Math.min(quote, backslash);
+
+      if (stop === -1) {
+        this.buffer += chunk.slice(i);
+        return chunk.length;
+      }
+
+      this.buffer += chunk.slice(i, stop);
+      i = stop + 1;
+
+      if (chunk[stop] === "\\") {
+        this.escape = "\\";
+      } else {
+        this.pending = null;
+        this.value(this.buffer, true);
+        return i;
+      }
+    }
+
+    return i;
+  }
+
+  private finishScalar(): void {
+    const text = this.buffer;
+    const kind = this.pending;
+    this.pending = null;
+    this.buffer = "";
+
+    if (kind === "literal") {
+      if (!(text in LITERALS)) {
+        throw new IndexParseError(`Unexpected literal ${JSON.stringify(text)}`);
+      }
+      this.value(LITERALS[text], false);
+      return;
+    }
+
+    const number = Number(text);
+    if (text === "" || Number.isNaN(number)) {
+      throw new IndexParseError(`Invalid number ${JSON.stringify(text)}`);
+    }
+    this.value(number, false);
+  }
+
+  private openContainer(char: "{" | "["): void {
+    const parent = this.stack[this.stack.length - 1];
+    this.checkValueAllowed();
+
+    this.stack.push({
+      type: char === "{" ? "object" : "array",
+      value: char === "{" ? {} : [],
+      expectKey: char === "{",
+      key: null,
+      afterColon: false,
+      isEntries: char === "[" && this.stack.length === 1 && parent.key === "entries",
+    });
+  }
+
+  private closeContainer(char: "}" | "]"): void {
+    const frame = this.stack.pop();
+    if (!frame || frame.type !== (char === "}" ? "object" : "array") || frame.key !== null) {
+      throw new IndexParseError(`Unexpected ${JSON.stringify(char)}`);
+    }
+    this.value(frame.value, false);
+  }
+
+  private comma(): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      throw new IndexParseError('Unexpected ","');
+    }
+    if (frame.type === "object") {
+      frame.expectKey = true;
+    }
+  }
+
+  private colon(): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame || frame.type !== "object" || frame.key === null || frame.afterColon) {
+      throw new IndexParseError('Unexpected ":"');
+    }
+    frame.afterColon = true;
+  }
+
+  private checkValueAllowed(): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame && this.done) {
+      throw new IndexParseError("Unexpected content after index document");
+    }
+    if (frame && frame.type === "object" && !frame.afterColon) {
+      throw new IndexParseError(frame.key === null ? "Expected an object key" : 'Expected ":"');
+    }
+  }
+
+  private value(value: JsonValue, isString: boolean): void {
+    const frame = this.stack[this.stack.length - 1];
+
+    if (!frame) {
+      if (this.done) {
+        throw new IndexParseError("Unexpected content after index document");
+      }
+      this.root = value;
+      this.done = true;
+      return;
+    }
+
+    if (frame.type === "object") {
+      if (frame.expectKey) {
+        if (!isString) {
+          throw new IndexParseError("Expected an object key");
+        }
+        frame.key = value as string;
+        frame.expectKey = false;
+        return;
+      }
+      if (!frame.afterColon) {
+        throw new IndexParseError(frame.key === null ? "Expected an object key" : 'Expected ":"');
+      }
+
+      (frame.value as { [key: string]: JsonValue })[frame.key] = value;
+      if (this.stack.length === 1 && frame.key === "generatedAt" && typeof value === "number") {
+        this.generatedAt = value;
+      }
+      frame.key = null;
+      frame.afterColon = false;
+      return;
+    }
+
+    if (frame.isEntries) {
+      const entry = value as unknown as SearchEntry;
+      if (
+        entry &&
+        typeof entry === "object" &&
+        typeof entry.name === "string" &&
+        typeof entry.relativePath === "string" &&
+        entry.name &&
+        entry.relativePath &&
+        this.onEntry(entry) === false
+      ) {
+        this.stopped = true;
+      }
+      return;
+    }
+
+    (frame.value as JsonValue[]).push(value);
+  }
+}
+
+function decodeEscape(escape: string): string {
+  switch (escape[1]) {
+    case "n":
+      return "\n";
+    case "t":
+      return "\t";
+    case "r":
+      return "\r";
+    case "b":
+      return "\b";
+    case "f":
+      return "\f";
+    case '"':
+    case "\\":
+    case "/":
+      return escape[1];
+    default:
+      throw new IndexParseError(`Invalid escape ${JSON.stringify(escape)}`);
+  }
+}
+
+/**
+ * Streams the entries of a DriveBuddy index file one at a time
+ * Return false from onEntry to stop reading early
+ *
+ * Resolves with the index's generatedAt value if it was seen before the stream ended.
+ * A truncated index, e.g. one DriveBuddy is still writing, keeps the entries read
+ * so far; other syntax errors reject.
+ */
+export function streamIndexEntries(
+  input: Readable,
+  onEntry: (entry: SearchEntry) => boolean | void
+): Promise<number | undefined> {
+  return new Promise((resolve, reject) => {
+    const parser = new IndexStreamParser(onEntry);
+    input.setEncoding("utf8");
+
+    input.on("data", (chunk: string) => {
+      try {
+        parser.write(chunk);
+      } catch (error) {
+        input.destroy();
+        reject(error);
+        return;
+      }
+
+      if (parser.stopped) {
+        input.destroy();
+        resolve(parser.generatedAt);
+      }
+    });
+
+    input.on("end", () => {
+      try {
+        parser.end();
+      } catch (error) {
+        console.error("Index file ended early, using the entries read so far:", error);
+      }
+      resolve(parser.generatedAt);
+    });
+
+    input.on("error", reject);
+  });
+}
+
+/**
+ * Reads an explicit file/folder type from an index entry, if the index carries one
+ * Accepts a "type" or "kind" string, or an "isDirectory"/"isFolder" flag
+ */
+export function readEntryKind(entry: SearchEntry): EntryKind | undefined {
+  const fields = entry as unknown as Record<string, unknown>;
+
+  for (const key of ["type", "kind"]) {
+    const value = fields[key];
+    if (typeof value === "string") {
+      const type = value.toLowerCase();
+      if (type === "directory" || type === "folder" || type === "dir") return "folder";
+      if (type === "file") return "file";
+    }
+  }
+
+  for (const key of ["isDirectory", "isFolder"]) {
+    if (typeof fields[key] === "boolean") {
+      return fields[key] ? "folder" : "file";
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads generatedAt without parsing the whole index
+ * Looks at the head and tail of the file, where the top-level keys live
+ */
+export function readGeneratedAt(source: DriveBuddyDataSource, file: string): number | undefined {
+  const PROBE_SIZE = 64 * 1024;
+  const info = source.statIndexFile(file);
+  if (!info) {
+    return undefined;
+  }
+
+  for (const position of [0, Math.max(0, info.size - PROBE_SIZE)]) {
+    const probe = source.readIndexFileRange(file, position, Math.min(PROBE_SIZE, info.size));
+    const match = probe.toString("utf8").match(/(?<!\\)"generatedAt"\s*:\s*(-?[0-9.eE+-]+)/);
+    if (match) {
+      return parseFloat(match[1]);
+    }
+  }
+
+  return undefined;
+}
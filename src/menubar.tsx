@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from "react";
+import {
+  Cache,
+  Clipboard,
+  Color,
+  Icon,
+  LaunchType,
+  MenuBarExtra,
+  launchCommand,
+  open,
+  showHUD,
+} from "@raycast/api";
+import { useCachedState } from "@raycast/utils";
+import { getFullPath, getRecentFiles, recordFileAccess, SearchResult } from "./drivebuddy";
+import { listDriveStatuses } from "./driveStatus";
+import { DiskutilMountTableProvider, KnownMount, getMountResolver, setMountTableProvider } from "./mounts";
+import { formatAge, formatBytes } from "./format";
+import { configureDataSource } from "./preferences";
+
+/**
+ * What the menu shows for a drive; plain data so it survives between launches
+ */
+interface MenuDrive {
+  volumeUUID: string;
+  name: string;
+  mountPoint: string | null;
+  availableSize?: number;
+  indexedAt: number | null;
+  lastSeen: number | null;
+}
+
+const MOUNTS_CACHE_KEY = "known-mounts";
+const RECENT_FILES_PER_DRIVE = 8;
+
+const cache = new Cache();
+
+/**
+ * Reads drive statuses, reusing diskutil results from earlier launches
+ * The menu bar command is relaunched on every interval, so without this each
+ * refresh would run diskutil once per mounted volume.
+ */
+async function loadMenuDrives(): Promise<MenuDrive[]> {
+  const known = cache.get(MOUNTS_CACHE_KEY);
+  const provider = new DiskutilMountTableProvider("/Volumes", known ? (JSON.parse(known) as KnownMount[]) : []);
+  setMountTableProvider(provider);
+  await getMountResolver().refresh();
+
+  const drives = listDriveStatuses().map((status) => ({
+    volumeUUID: status.volumeUUID,
+    name: status.name,
+    mountPoint: status.mountPoint,
+    availableSize: status.drive?.availableSize,
+    indexedAt: status.indexedAt?.getTime() ?? null,
+    lastSeen: status.lastSeen?.getTime() ?? null,
+  }));
+
+  cache.set(MOUNTS_CACHE_KEY, JSON.stringify(provider.getKnownMounts()));
+  return drives.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * A drive: filter for the search bar; falls back to the UUID when the name is ambiguous
+ */
+function getDriveFilter(drive: MenuDrive, drives: MenuDrive[]): string {
+  const ambiguous = drive.name.includes('"') || drives.some((d) => d !== drive && d.name === drive.name);
+  return ambiguous ? `drive:${drive.volumeUUID} ` : `drive:"${drive.name}" `;
+}
+
+export default function Command() {
+  configureDataSource();
+
+  // Shown straight away from the last launch while the statuses are re-read
+  const [drives, setDrives] = useCachedState<MenuDrive[]>("menubar-drives", []);
+  const [recentFiles, setRecentFiles] = useState<SearchResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setDrives(await loadMenuDrives());
+        setRecentFiles(getRecentFiles(100));
+      } catch (error) {
+        console.error("Failed to load drives for the menu bar:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, []);
+
+  const connected = drives.filter((drive) => drive.mountPoint !== null);
+  const offline = drives.filter((drive) => drive.mountPoint === null);
+
+  const searchDrive = (drive: MenuDrive) =>
+    launchCommand({
+      name: "search",
+      type: LaunchType.UserInitiated,
+      context: { searchText: getDriveFilter(drive, drives) },
+    });
+
+  const openRecent = async (drive: MenuDrive, file: SearchResult) => {
+    const fullPath = getFullPath(file.driveUUID, file.entry.relativePath);
+    if (drive.mountPoint) {
+      recordFileAccess(file.driveUUID, file.entry.relativePath);
+      await open(fullPath);
+    } else {
+      await Clipboard.copy(fullPath);
+      await showHUD(`${drive.name} is offline; copied path`);
+    }
+  };
+
+  const renderDrive = (drive: MenuDrive) => {
+    const mounted = drive.mountPoint !== null;
+    const driveFiles = recentFiles
+      .filter((file) => file.driveUUID === drive.volumeUUID)
+      .slice(0, RECENT_FILES_PER_DRIVE);
+    const freeSpace = drive.availableSize !== undefined ? `  ${formatBytes(drive.availableSize)} free` : "";
+
+    return (
+      <MenuBarExtra.Submenu
+        key={drive.volumeUUID}
+        title={`${drive.name}${freeSpace}`}
+        icon={{
+          source: mounted ? Icon.CircleFilled : Icon.Circle,
+          tintColor: mounted ? Color.Green : Color.SecondaryText,
+        }}
+      >
+        <MenuBarExtra.Section>
+          <MenuBarExtra.Item
+            title={mounted ? `Connected at ${drive.mountPoint}` : "Offline"}
+            subtitle={!mounted && drive.lastSeen ? `last seen ${formatAge(new Date(drive.lastSeen))}` : undefined}
+          />
+          <MenuBarExtra.Item
+            title={drive.indexedAt ? `Indexed ${formatAge(new Date(drive.indexedAt))}` : "Not indexed"}
+          />
+        </MenuBarExtra.Section>
+        <MenuBarExtra.Section>
+          {mounted && (
+            <MenuBarExtra.Item title="Open in Finder" icon={Icon.Finder} onAction={() => open(drive.mountPoint!)} />
+          )}
+          <MenuBarExtra.Item
+            title="Search This Drive…"
+            icon={Icon.MagnifyingGlass}
+            onAction={() => searchDrive(drive)}
+          />
+        </MenuBarExtra.Section>
+        {driveFiles.length > 0 && (
+          <MenuBarExtra.Section title="Recent Files">
+            {driveFiles.map((file) => (
+              <MenuBarExtra.Item
+                key={file.entry.relativePath}
+                title={file.entry.name}
+                tooltip={file.entry.relativePath}
+                icon={Icon.Clock}
+                onAction={() => openRecent(drive, file)}
+              />
+            ))}
+          </MenuBarExtra.Section>
+        )}
+      </MenuBarExtra.Submenu>
+    );
+  };
+
+  return (
+    <MenuBarExtra
+      icon={Icon.HardDrive}
+      isLoading={isLoading}
+      tooltip={`DriveBuddy: ${connected.length} of ${drives.length} drives connected`}
+    >
+      {drives.length === 0 && !isLoading && <MenuBarExtra.Item title="No drives found" />}
+      {connected.length > 0 && (
+        <MenuBarExtra.Section title="Connected">{connected.map(renderDrive)}</MenuBarExtra.Section>
+      )}
+      {offline.length > 0 && <MenuBarExtra.Section title="Offline">{offline.map(renderDrive)}</MenuBarExtra.Section>}
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Search Drives…"
+          icon={Icon.MagnifyingGlass}
+          shortcut={{ modifiers: ["cmd"], key: "f" }}
+          onAction={() => launchCommand({ name: "search", type: LaunchType.UserInitiated })}
+        />
+        <MenuBarExtra.Item
+          title="Drives Dashboard"
+          icon={Icon.HardDrive}
+          onAction={() => launchCommand({ name: "drives", type: LaunchType.UserInitiated })}
+        />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
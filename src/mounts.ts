@@ -0,0 +1,246 @@
+import { execFile } from "child_process";
+import { existsSync, readdirSync, statSync } from "fs";
+import { join } from "path";
+import { promisify } from "util";
+import { parsePlist } from "./plist";
+
+const execFileAsync = promisify(execFile);
+
+export interface MountedVolume {
+  volumeUUID: string;
+  mountPoint: string;
+  name: string;
+}
+
+/**
+ * Lists currently mounted volumes with their UUIDs
+ * Throws if the mount table can't be read at all, so callers can fall back
+ */
+export interface MountTableProvider {
+  listMountedVolumes(): MountedVolume[];
+  /**
+   * Resolves once volumes found by the last listing, but not identified yet, have been
+   */
+  whenIdentified?(): Promise<void>;
+}
+
+/**
+ * What diskutil reported for a mount point, remembered until a different device is mounted there
+ */
+export interface KnownMount {
+  mountPoint: string;
+  device: number;
+  volume: MountedVolume | null;
+}
+
+/**
+ * Reads the mount table on macOS by asking diskutil about each entry in /Volumes
+ *
+ * Results are remembered per mount point and device, so diskutil only runs for
+ * volumes that appeared since the last call; listing /Volumes itself is cheap.
+ * diskutil runs in the background, all new volumes at once, and a volume is
+ * only listed once it has been identified. Commands that are relaunched often
+ * can carry the results over with getKnownMounts() and the constructor.
+ */
+export class DiskutilMountTableProvider implements MountTableProvider {
+  private known: Map<string, KnownMount>;
+  private identifying: Promise<void> | null = null;
+
+  constructor(
+    private readonly volumesDir: string = "/Volumes",
+    known: KnownMount[] = []
+  ) {
+    this.known = new Map(known.map((mount) => [mount.mountPoint, mount]));
+  }
+
+  listMountedVolumes(): MountedVolume[] {
+    const entries = readdirSync(this.volumesDir);
+    const current = new Map<string, KnownMount>();
+    const unknown: Omit<KnownMount, "volume">[] = [];
+
+    for (const entry of entries) {
+      const mountPoint = join(this.volumesDir, entry);
+      let device: number;
+      try {
+        device = statSync(mountPoint).dev;
+      } catch {
+        continue;
+      }
+
+      const known = this.known.get(mountPoint);
+      if (known && known.device === device) {
+        current.set(mountPoint, known);
+      } else {
+        unknown.push({ mountPoint, device });
+      }
+    }
+
+    this.known = current;
+    if (unknown.length > 0 && !this.identifying) {
+      this.identifying = this.identify(unknown).finally(() => {
+        this.identifying = null;
+      });
+    }
+
+    return Array.from(current.values())
+      .map((mount) => mount.volume)
+      .filter((volume): volume is MountedVolume => volume !== null);
+  }
+
+  /**
+   * Mount points described so far, for seeding a provider in a later launch
+   */
+  getKnownMounts(): KnownMount[] {
+    return Array.from(this.known.values());
+  }
+
+  async whenIdentified(): Promise<void> {
+    await this.identifying;
+  }
+
+  private async identify(mounts: Omit<KnownMount, "volume">[]): Promise<void> {
+    const described = await Promise.all(
+      mounts.map(async (mount) => ({ ...mount, volume: await this.describe(mount.mountPoint) }))
+    );
+    described.forEach((mount) => this.known.set(mount.mountPoint, mount));
+  }
+
+  private async describe(mountPoint: string): Promise<MountedVolume | null> {
+    try {
+      const { stdout } = await execFileAsync("diskutil", ["info", "-plist", mountPoint], {
+        timeout: 5000,
+        encoding: "buffer",
+      });
+      const info = parsePlist(stdout) as Record<string, unknown>;
+      const volumeUUID = info.VolumeUUID;
+      if (typeof volumeUUID !== "string") {
+        return null;
+      }
+      return {
+        volumeUUID,
+        mountPoint: typeof info.MountPoint === "string" && info.MountPoint ? info.MountPoint : mountPoint,
+        name: typeof info.VolumeName === "string" ? info.VolumeName : mountPoint.split("/").pop() || mountPoint,
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Fixed mount table, for tests and tools that know the mounts up front
+ */
+export class StaticMountTableProvider implements MountTableProvider {
+  constructor(public volumes: MountedVolume[] = []) {}
+
+  listMountedVolumes(): MountedVolume[] {
+    return this.volumes;
+  }
+}
+
+/**
+ * Hints used when the drive isn't in the mount table: it may still be being
+ * identified, diskutil may not report a UUID for it, or the table can't be read
+ */
+export interface MountHints {
+  name?: string;
+  path?: string;
+}
+
+/**
+ * Maps volume UUIDs to their current mount points
+ *
+ * Two drives called "Untitled", or one that macOS mounted as "Backup 1",
+ * still resolve correctly because lookups go by UUID. The mount table is
+ * re-read at most once per refresh interval.
+ */
+export class MountResolver {
+  private table: Map<string, MountedVolume> | null = null;
+  // Mount points of the volumes in the table, which belong to those drives only
+  private identifiedMountPoints = new Set<string>();
+  private loadedAt = 0;
+  private unavailable = false;
+
+  constructor(
+    private readonly provider: MountTableProvider,
+    private readonly refreshIntervalMs: number = 2000
+  ) {}
+
+  /**
+   * Returns the drive's mount point, or null if it isn't mounted
+   */
+  resolve(volumeUUID: string, hints: MountHints = {}): string | null {
+    const volume = this.getTable()?.get(volumeUUID.toUpperCase());
+    if (volume) {
+      return volume.mountPoint;
+    }
+
+    // Fall back to where the drive was last seen or its name under /Volumes, unless another drive is mounted there
+    const candidates = [hints.path, hints.name ? `/Volumes/${hints.name}` : undefined];
+    return (
+      candidates.find(
+        (candidate) => candidate && !this.identifiedMountPoints.has(candidate) && existsSync(candidate)
+      ) ?? null
+    );
+  }
+
+  isMounted(volumeUUID: string, hints: MountHints = {}): boolean {
+    return this.resolve(volumeUUID, hints) !== null;
+  }
+
+  /**
+   * Re-reads the mount table and waits for newly mounted volumes to be identified
+   */
+  async refresh(): Promise<void> {
+    this.loadedAt = 0;
+    this.getTable();
+    await this.provider.whenIdentified?.();
+    this.loadedAt = 0;
+  }
+
+  private getTable(): Map<string, MountedVolume> | null {
+    const now = Date.now();
+    if (this.table && now - this.loadedAt < this.refreshIntervalMs) {
+      return this.table;
+    }
+    if (this.unavailable && now - this.loadedAt < this.refreshIntervalMs) {
+      return null;
+    }
+
+    this.loadedAt = now;
+    try {
+      const table = new Map<string, MountedVolume>();
+      for (const volume of this.provider.listMountedVolumes()) {
+        table.set(volume.volumeUUID.toUpperCase(), volume);
+      }
+      this.table = table;
+      this.identifiedMountPoints = new Set(Array.from(table.values(), (volume) => volume.mountPoint));
+      this.unavailable = false;
+    } catch {
+      this.table = null;
+      this.identifiedMountPoints = new Set();
+      this.unavailable = true;
+    }
+
+    return this.table;
+  }
+}
+
+let defaultResolver: MountResolver | null = null;
+
+/**
+ * The resolver used by isDriveMounted and getFullPath
+ */
+export function getMountResolver(): MountResolver {
+  if (!defaultResolver) {
+    defaultResolver = new MountResolver(new DiskutilMountTableProvider());
+  }
+  return defaultResolver;
+}
+
+/**
+ * Replaces the mount table provider, e.g. with a StaticMountTableProvider in tests
+ */
+export function setMountTableProvider(provider: MountTableProvider): void {
+  defaultResolver = new MountResolver(provider);
+}
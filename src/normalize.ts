@@ -0,0 +1,98 @@
+/**
+ * Text normalization shared by indexing, query parsing and scoring
+ *
+ * macOS stores filenames decomposed (NFD) while typed queries are usually
+ * composed (NFC), so both sides are folded to the same form before comparing:
+ * compatibility-decomposed, diacritics removed, lowercased.
+ */
+
+// Characters treated as word separators in filenames
+const SEPARATORS = /[\s_\-.]+/g;
+
+/**
+ * Folds case and diacritics: "Café" and "Café" both become "cafe"
+ */
+export function foldText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}+/gu, "")
+    .toLowerCase()
+    .normalize("NFC");
+}
+
+/**
+ * Folds text and collapses separators to single spaces: "My_Project-v2.mov" becomes "my project v2 mov"
+ */
+export function normalizeText(text: string): string {
+  return foldText(text).replace(SEPARATORS, " ").trim();
+}
+
+/**
+ * Splits text into normalized words, also breaking camelCase and letter/digit boundaries
+ */
+export function getTokens(text: string): string[] {
+  const split = text.replace(/(\p{Ll})(\p{Lu})/gu, "$1 $2").replace(/(\p{L})(\p{N})|(\p{N})(\p{L})/gu, "$1$3 $2$4");
+  return normalizeText(split)
+    .split(" ")
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * First letters of each word: "my_project_final.mov" becomes "mpfm"
+ */
+export function getInitials(text: string): string {
+  return getTokens(text)
+    .map((token) => token[0])
+    .join("");
+}
+
+/**
+ * Scores word-aware matches that plain substring and edit distance miss
+ * Returns 0 when there is no such match, otherwise a score from 75 to 89
+ *
+ * - Word prefixes: "proj fin" matches my_project_final (every query word starts a filename word, in order)
+ * - Acronyms: "mpf" matches my_project_final
+ */
+export function scoreTokenMatch(query: string, filename: string): number {
+  const queryTokens = getTokens(query);
+  const fileTokens = getTokens(filename);
+
+  if (queryTokens.length === 0 || fileTokens.length === 0) {
+    return 0;
+  }
+
+  let best = 0;
+
+  // Word-prefix match, greedy and in order
+  let fileIndex = 0;
+  let matchedQueryChars = 0;
+  let matchedFileChars = 0;
+  for (const queryToken of queryTokens) {
+    while (fileIndex < fileTokens.length && !fileTokens[fileIndex].startsWith(queryToken)) {
+      fileIndex++;
+    }
+    if (fileIndex === fileTokens.length) {
+      matchedQueryChars = 0;
+      break;
+    }
+    matchedQueryChars += queryToken.length;
+    matchedFileChars += fileTokens[fileIndex].length;
+    fileIndex++;
+  }
+  if (matchedQueryChars > 0) {
+    best = Math.max(best, 80 + 9 * (matchedQueryChars / matchedFileChars));
+  }
+
+  // Acronym match for a single compact query word
+  if (queryTokens.length === 1 && queryTokens[0].length >= 2) {
+    const acronym = queryTokens[0];
+    const initials = fileTokens.map((token) => token[0]).join("");
+    if (initials.startsWith(acronym)) {
+      best = Math.max(best, 82 + 6 * (acronym.length / initials.length));
+    } else if (initials.includes(acronym)) {
+      best = Math.max(best, 75);
+    }
+  }
+
+  return Math.min(89, best);
+}
@@ -0,0 +1,16 @@
+import { existsSync } from "fs";
+import { extname, join } from "path";
+
+/**
+ * A path in the folder for the name that doesn't exist yet, adding " 2", " 3"… before the extension
+ */
+export function getAvailablePath(folder: string, name: string): string {
+  const extension = extname(name);
+  const stem = name.slice(0, name.length - extension.length);
+
+  let candidate = join(folder, name);
+  for (let n = 2; existsSync(candidate); n++) {
+    candidate = join(folder, `${stem} ${n}${extension}`);
+  }
+  return candidate;
+}
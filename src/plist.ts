@@ -0,0 +1,327 @@
+/**
+ * Minimal property list reader supporting both the binary (bplist00) and XML formats.
+ * Replaces the `plutil` shell-out so drive metadata can be read on any platform.
+ */
+
+export type PlistValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | null
+  | Date
+  | Buffer
+  | PlistValue[]
+  | { [key: string]: PlistValue };
+
+export class PlistParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlistParseError";
+  }
+}
+
+const BINARY_MAGIC = "bplist00";
+const CF_EPOCH_OFFSET_MS = 978307200 * 1000; // Milliseconds between 1970 and 2001
+
+/**
+ * Parses a property list buffer, detecting binary vs XML automatically
+ */
+export function parsePlist(buffer: Buffer): PlistValue {
+  if (buffer.length >= 8 && buffer.toString("ascii", 0, 8) === BINARY_MAGIC) {
+    return parseBinaryPlist(buffer);
+  }
+  return parseXmlPlist(buffer.toString("utf8"));
+}
+
+// ---------------------------------------------------------------------------
+// Binary format
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses a binary plist (bplist00)
+ *
+ * Layout: header, object table, offset table, 32-byte trailer.
+ * The trailer tells us the width of offsets and object references,
+ * the object count, the root object and where the offset table starts.
+ */
+export function parseBinaryPlist(buffer: Buffer): PlistValue {
+  if (buffer.length < 8 + 32 || buffer.toString("ascii", 0, 8) !== BINARY_MAGIC) {
+    throw new PlistParseError("Not a binary plist");
+  }
+
+  const trailer = buffer.length - 32;
+  const offsetSize = buffer.readUInt8(trailer + 6);
+  const objectRefSize = buffer.readUInt8(trailer + 7);
+  const numObjects = Number(buffer.readBigUInt64BE(trailer + 8));
+  const topObject = Number(buffer.readBigUInt64BE(trailer + 16));
+  const offsetTableOffset = Number(buffer.readBigUInt64BE(trailer + 24));
+
+  if (offsetTableOffset + numObjects * offsetSize > trailer) {
+    throw new PlistParseError("Offset table exceeds file bounds");
+  }
+
+  const readUInt = (offset: number, size: number): number => {
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+      value = value * 256 + buffer[offset + i];
+    }
+    return value;
+  };
+
+  const offsets: number[] = [];
+  for (let i = 0; i < numObjects; i++) {
+    offsets.push(readUInt(offsetTableOffset + i * offsetSize, offsetSize));
+  }
+
+  const copyBytes = (start: number, length: number): Buffer => {
+    return Buffer.from(buffer.subarray(start, start + length));
+  };
+
+  // Guards against reference cycles in malformed files
+  const visiting = new Set<number>();
+
+  const readLength = (marker: number, offset: number): { length: number; start: number } => {
+    const info = marker & 0x0f;
+    if (info !== 0x0f) {
+      return { length: info, start: offset + 1 };
+    }
+    const intMarker = buffer[offset + 1];
+    if (intMarker >> 4 !== 0x1) {
+      throw new PlistParseError(`Invalid length marker at ${offset}`);
+    }
+    const intSize = 1 << (intMarker & 0x0f);
+    return { length: readUInt(offset + 2, intSize), start: offset + 2 + intSize };
+  };
+
+  const readObject = (ref: number): PlistValue => {
+    if (ref >= offsets.length) {
+      throw new PlistParseError(`Object reference ${ref} out of range`);
+    }
+    if (visiting.has(ref)) {
+      throw new PlistParseError(`Cyclic object reference ${ref}`);
+    }
+
+    const offset = offsets[ref];
+    const marker = buffer[offset];
+    const type = marker >> 4;
+
+    switch (type) {
+      case 0x0: {
+        if (marker === 0x08) return false;
+        if (marker === 0x09) return true;
+        return null;
+      }
+      case 0x1: {
+        const size = 1 << (marker & 0x0f);
+        if (size === 8) {
+          const value = buffer.readBigInt64BE(offset + 1);
+          return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+            ? Number(value)
+            : value;
+        }
+        if (size === 16) {
+          // 128-bit integers only appear for very large unsigned values; keep the low 64 bits
+          return buffer.readBigUInt64BE(offset + 9);
+        }
+        return readUInt(offset + 1, size);
+      }
+      case 0x2: {
+        const size = 1 << (marker & 0x0f);
+        return size === 4 ? buffer.readFloatBE(offset + 1) : buffer.readDoubleBE(offset + 1);
+      }
+      case 0x3: {
+        return new Date(CF_EPOCH_OFFSET_MS + buffer.readDoubleBE(offset + 1) * 1000);
+      }
+      case 0x4: {
+        const { length, start } = readLength(marker, offset);
+        return copyBytes(start, length);
+      }
+      case 0x5: {
+        const { length, start } = readLength(marker, offset);
+        return buffer.toString("latin1", start, start + length);
+      }
+      case 0x6: {
+        const { length, start } = readLength(marker, offset);
+        const chars = copyBytes(start, length * 2);
+        chars.swap16();
+        return chars.toString("utf16le");
+      }
+      case 0x8: {
+        return readUInt(offset + 1, (marker & 0x0f) + 1);
+      }
+      case 0xa: {
+        const { length, start } = readLength(marker, offset);
+        visiting.add(ref);
+        const array: PlistValue[] = [];
+        for (let i = 0; i < length; i++) {
+          array.push(readObject(readUInt(start + i * objectRefSize, objectRefSize)));
+        }
+        visiting.delete(ref);
+        return array;
+      }
+      case 0xd: {
+        const { length, start } = readLength(marker, offset);
+        visiting.add(ref);
+        const dict: { [key: string]: PlistValue } = {};
+        for (let i = 0; i < length; i++) {
+          const key = readObject(readUInt(start + i * objectRefSize, objectRefSize));
+          const value = readObject(readUInt(start + (length + i) * objectRefSize, objectRefSize));
+          dict[String(key)] = value;
+        }
+        visiting.delete(ref);
+        return dict;
+      }
+      default:
+        throw new PlistParseError(`Unsupported object type 0x${marker.toString(16)} at ${offset}`);
+    }
+  };
+
+  return readObject(topObject);
+}
+
+// ---------------------------------------------------------------------------
+// XML format
+// ---------------------------------------------------------------------------
+
+interface XmlToken {
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+  text: string;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith("#")) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Splits the document into element tokens, each carrying the text that precedes the next tag
+ */
+function tokenizeXml(xml: string): XmlToken[] {
+  const tokens: XmlToken[] = [];
+  const tagPattern = /<(\/?)([A-Za-z_][\w.-]*)[^>]*?(\/?)>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<![^>]*>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(xml)) !== null) {
+    if (!match[2]) continue; // Comment, declaration or doctype
+
+    const textStart = tagPattern.lastIndex;
+    const nextTag = xml.indexOf("<", textStart);
+    tokens.push({
+      name: match[2],
+      closing: match[1] === "/",
+      selfClosing: match[3] === "/",
+      text: xml.slice(textStart, nextTag === -1 ? xml.length : nextTag),
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses an XML plist document
+ */
+export function parseXmlPlist(xml: string): PlistValue {
+  const tokens = tokenizeXml(xml);
+  let position = 0;
+
+  const expectClose = (name: string) => {
+    const token = tokens[position++];
+    if (!token || !token.closing || token.name !== name) {
+      throw new PlistParseError(`Expected </${name}>`);
+    }
+  };
+
+  const readValue = (): PlistValue => {
+    const token = tokens[position++];
+    if (!token || token.closing) {
+      throw new PlistParseError("Unexpected end of plist");
+    }
+
+    switch (token.name) {
+      case "dict": {
+        const dict: { [key: string]: PlistValue } = {};
+        if (token.selfClosing) return dict;
+        while (tokens[position] && !tokens[position].closing) {
+          const keyToken = tokens[position++];
+          if (keyToken.name !== "key") {
+            throw new PlistParseError(`Expected <key>, found <${keyToken.name}>`);
+          }
+          const key = keyToken.selfClosing ? "" : decodeXmlEntities(keyToken.text);
+          if (!keyToken.selfClosing) expectClose("key");
+          dict[key] = readValue();
+        }
+        expectClose("dict");
+        return dict;
+      }
+      case "array": {
+        const array: PlistValue[] = [];
+        if (token.selfClosing) return array;
+        while (tokens[position] && !tokens[position].closing) {
+          array.push(readValue());
+        }
+        expectClose("array");
+        return array;
+      }
+      case "true":
+      case "false": {
+        if (!token.selfClosing) expectClose(token.name);
+        return token.name === "true";
+      }
+      case "string":
+      case "integer":
+      case "real":
+      case "date":
+      case "data": {
+        const text = token.selfClosing ? "" : token.text;
+        if (!token.selfClosing) expectClose(token.name);
+        return convertScalar(token.name, text);
+      }
+      default:
+        throw new PlistParseError(`Unsupported element <${token.name}>`);
+    }
+  };
+
+  const root = tokens[position];
+  if (root && root.name === "plist" && !root.closing) {
+    position++;
+    const value = readValue();
+    expectClose("plist");
+    return value;
+  }
+
+  return readValue();
+}
+
+function convertScalar(type: string, text: string): PlistValue {
+  switch (type) {
+    case "string":
+      return decodeXmlEntities(text);
+    case "integer": {
+      const trimmed = text.trim();
+      const value = Number(trimmed);
+      return Number.isSafeInteger(value) ? value : BigInt(trimmed);
+    }
+    case "real":
+      return parseFloat(text);
+    case "date":
+      return new Date(text.trim());
+    case "data":
+      return Buffer.from(text.replace(/\s/g, ""), "base64");
+    default:
+      throw new PlistParseError(`Unsupported scalar <${type}>`);
+  }
+}
@@ -0,0 +1,58 @@
+import { environment, getPreferenceValues } from "@raycast/api";
+import { FileSystemDataSource, setDataSource } from "./dataSource";
+import { DEFAULT_SNAPSHOT_RETENTION } from "./snapshots";
+
+interface DataSourcePreferences {
+  dataDirectory?: string;
+  snapshotRetention?: string;
+}
+
+let configuredKey: string | undefined;
+
+/**
+ * Points the shared data source at the DriveBuddy data folder chosen in preferences
+ *
+ * Search caches, index history, favorites and the retrieval queue are always
+ * written to the extension's support directory, whichever folder is read, and
+ * Scans to Keep is applied whenever a snapshot is recorded.
+ */
+export function configureDataSource(): void {
+  const { dataDirectory, snapshotRetention } = getPreferenceValues<DataSourcePreferences>();
+  const rootDir = dataDirectory?.trim() || "";
+  const retention = parseCountPreference(snapshotRetention, DEFAULT_SNAPSHOT_RETENTION);
+
+  const key = `${retention}:${rootDir}`;
+  if (configuredKey === key) {
+    return;
+  }
+  configuredKey = key;
+
+  // The source carries the retention to search workers, which record most snapshots
+  setDataSource(
+    new FileSystemDataSource({
+      rootDir: rootDir || undefined,
+      supportDir: environment.supportPath,
+      snapshotRetention: retention,
+    })
+  );
+}
+
+/**
+ * Reads a whole-number text preference, falling back when it is empty, not a
+ * number or not positive, so a typo can never mean "none" or "unlimited"
+ */
+export function parseCountPreference(value: string | undefined, fallback: number): number {
+  const trimmed = value?.trim() ?? "";
+  const count = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : NaN;
+  return Number.isInteger(count) && count > 0 ? count : fallback;
+}
+
+/**
+ * Reads a non-negative decimal text preference, such as a ranking weight,
+ * falling back when it is empty or not a plain number; 0 is kept
+ */
+export function parseWeightPreference(value: string | undefined, fallback: number): number {
+  const trimmed = value?.trim() ?? "";
+  const weight = /^(\d+(\.\d*)?|\.\d+)$/.test(trimmed) ? parseFloat(trimmed) : NaN;
+  return Number.isFinite(weight) && weight >= 0 ? weight : fallback;
+}
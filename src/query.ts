@@ -0,0 +1,231 @@
+import type { SearchEntry } from "./drivebuddy";
+import { foldText, normalizeText } from "./normalize";
+
+/**
+ * Structured search query syntax
+ *
+ *   drive:"Archive 03"   restrict to a drive by name or volume UUID
+ *   ext:mov,mp4          restrict to file extensions
+ *   path:clients/acme    restrict to entries whose relative path contains this
+ *   tag:masters          restrict to entries carrying one of these tags
+ *   "exact phrase"       filename must contain the phrase
+ *   -proxy               exclude entries whose filename contains "proxy"
+ *
+ * Any clause can be negated with a leading "-", and comma-separated values
+ * within a clause are alternatives. Everything else is free text that is
+ * fuzzy-matched against the filename.
+ */
+
+export type QueryField = "text" | "phrase" | "drive" | "ext" | "path" | "tag";
+
+export interface QueryClause {
+  field: QueryField;
+  values: string[];
+  negated: boolean;
+}
+
+export interface ParsedQuery {
+  text: string;
+  clauses: QueryClause[];
+}
+
+export class QuerySyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "QuerySyntaxError";
+    this.position = position;
+  }
+}
+
+const FIELDS: Record<string, QueryField> = {
+  drive: "drive",
+  ext: "ext",
+  path: "path",
+  tag: "tag",
+};
+
+/**
+ * Parses a search bar string into free text and filter clauses
+ * Throws QuerySyntaxError for unterminated quotes or empty clauses
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const terms: string[] = [];
+  const clauses: QueryClause[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): { value: string; end: number } => {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) {
+      throw new QuerySyntaxError("Unterminated quote", start);
+    }
+    return { value: input.slice(start + 1, close), end: close + 1 };
+  };
+
+  const readBare = (start: number): { value: string; end: number } => {
+    let end = start;
+    while (end < input.length && !/\s/.test(input[end])) end++;
+    return { value: input.slice(start, end), end };
+  };
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const tokenStart = i;
+    let negated = false;
+    if (input[i] === "-") {
+      negated = true;
+      i++;
+      if (i >= input.length || /\s/.test(input[i])) {
+        throw new QuerySyntaxError('"-" must be followed by a term to exclude', tokenStart);
+      }
+    }
+
+    if (input[i] === '"') {
+      const { value, end } = readQuoted(i);
+      i = end;
+      const phrase = normalizeText(value);
+      if (!phrase) {
+        throw new QuerySyntaxError("Empty quoted phrase", tokenStart);
+      }
+      clauses.push({ field: negated ? "text" : "phrase", values: [phrase], negated });
+      continue;
+    }
+
+    const fieldMatch = input.slice(i).match(/^([a-z]+):/i);
+    const field = fieldMatch ? FIELDS[fieldMatch[1].toLowerCase()] : undefined;
+
+    if (fieldMatch && field) {
+      i += fieldMatch[0].length;
+      const { value, end } = input[i] === '"' ? readQuoted(i) : readBare(i);
+      i = end;
+
+      const values = value
+        .split(",")
+        .map((v) => normalizeClauseValue(field, v))
+        .filter((v) => v.length > 0);
+      if (values.length === 0) {
+        throw new QuerySyntaxError(`"${fieldMatch[1]}:" needs a value`, tokenStart);
+      }
+      clauses.push({ field, values, negated });
+      continue;
+    }
+
+    const { value, end } = readBare(i);
+    i = end;
+    if (negated) {
+      // Separators alone, e.g. "-_", would otherwise exclude every entry
+      const excluded = normalizeText(value);
+      if (!excluded) {
+        throw new QuerySyntaxError('"-" must be followed by a term to exclude', tokenStart);
+      }
+      clauses.push({ field: "text", values: [excluded], negated: true });
+    } else {
+      terms.push(value.toLowerCase());
+    }
+  }
+
+  return { text: terms.join(" "), clauses };
+}
+
+function normalizeClauseValue(field: QueryField, value: string): string {
+  const trimmed = foldText(value.trim());
+  switch (field) {
+    case "ext":
+      return trimmed.replace(/^\*?\./, "");
+    case "path":
+      return trimmed.replace(/^\/+/, "");
+    default:
+      return trimmed;
+  }
+}
+
+/**
+ * True when the query has nothing to search for
+ */
+export function isEmptyQuery(query: ParsedQuery): boolean {
+  return !query.text && query.clauses.length === 0;
+}
+
+/**
+ * Text used for fuzzy scoring: free text plus any required phrases
+ */
+export function getScoringText(query: ParsedQuery): string {
+  const phrases = query.clauses.filter((c) => c.field === "phrase" && !c.negated).flatMap((c) => c.values);
+  return [query.text, ...phrases].filter(Boolean).join(" ");
+}
+
+/**
+ * Gets the lowercase extension of a filename, without the dot
+ */
+export function getExtension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+/**
+ * Checks the drive clauses only, so whole index files can be skipped up front
+ */
+export function matchesDrive(query: ParsedQuery, driveUUID: string, driveName: string): boolean {
+  const uuid = driveUUID.toLowerCase();
+  const name = foldText(driveName);
+
+  return query.clauses
+    .filter((c) => c.field === "drive")
+    .every((clause) => {
+      const hit = clause.values.some((v) => v === name || v === uuid);
+      return clause.negated ? !hit : hit;
+    });
+}
+
+/**
+ * True when only tagged entries can match, so drives without tags can be skipped
+ */
+export function requiresTags(query: ParsedQuery): boolean {
+  return query.clauses.some((c) => c.field === "tag" && !c.negated);
+}
+
+/**
+ * Checks every non-drive clause against an entry
+ * Tags are the entry's folded tags, if it has any
+ */
+export function matchesEntry(query: ParsedQuery, entry: SearchEntry, tags?: string[]): boolean {
+  // Normalized lazily, since most queries only use some clause types
+  let name: string | undefined;
+  let path: string | undefined;
+
+  for (const clause of query.clauses) {
+    let hit: boolean;
+    switch (clause.field) {
+      case "text":
+      case "phrase":
+        name ??= normalizeText(entry.name);
+        hit = clause.values.some((v) => name!.includes(v));
+        break;
+      case "ext": {
+        const extension = foldText(getExtension(entry.name));
+        hit = clause.values.some((v) => v === extension);
+        break;
+      }
+      case "path":
+        path ??= foldText(entry.relativePath);
+        hit = clause.values.some((v) => path!.includes(v));
+        break;
+      case "tag":
+        hit = tags !== undefined && clause.values.some((v) => tags.includes(v));
+        break;
+      default:
+        continue;
+    }
+
+    if (hit === clause.negated) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,159 @@
+import React, { useState } from "react";
+import {
+  List,
+  Action,
+  ActionPanel,
+  Icon,
+  Color,
+  LaunchType,
+  launchCommand,
+  showInFinder,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { isDriveMounted } from "./drivebuddy";
+import {
+  RetrievalRequest,
+  RetrievalStatus,
+  clearFinishedRetrievals,
+  loadRetrievalQueue,
+  removeRetrieval,
+  retryRetrieval,
+} from "./retrievalQueue";
+import { FileActions } from "./fileActions";
+import { formatAge } from "./format";
+import { configureDataSource } from "./preferences";
+
+const SECTIONS: { status: RetrievalStatus; title: string }[] = [
+  { status: "pending", title: "Waiting for Drive" },
+  { status: "failed", title: "Failed" },
+  { status: "done", title: "Done" },
+];
+
+/**
+ * Files requested from offline drives, grouped by status
+ */
+export default function Command() {
+  configureDataSource();
+
+  const [queue, setQueue] = useState(() => loadRetrievalQueue());
+  const reload = () => setQueue(loadRetrievalQueue());
+
+  const checkNow = async () => {
+    try {
+      await launchCommand({ name: "retrieve", type: LaunchType.UserInitiated });
+    } catch (error) {
+      console.error("Failed to check retrieval queue:", error);
+      showToast({ style: Toast.Style.Failure, title: "Check Failed", message: String(error) });
+    }
+  };
+
+  const queueActions = (
+    <ActionPanel.Section title="Queue">
+      <Action
+        title="Check Connected Drives Now"
+        icon={Icon.ArrowClockwise}
+        shortcut={{ modifiers: ["cmd"], key: "r" }}
+        onAction={checkNow}
+      />
+      <Action title="Reload Queue" icon={Icon.RotateClockwise} onAction={reload} />
+      <Action
+        title="Clear Finished"
+        icon={Icon.Trash}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "backspace" }}
+        onAction={() => {
+          clearFinishedRetrievals();
+          reload();
+        }}
+      />
+    </ActionPanel.Section>
+  );
+
+  const renderItem = (item: RetrievalRequest) => {
+    const name = item.relativePath.split("/").pop() || item.relativePath;
+    const mounted = isDriveMounted(item.driveUUID);
+    const accessories: List.Item.Accessory[] = [
+      { text: item.driveName, icon: { source: Icon.HardDrive, tintColor: mounted ? Color.Green : undefined } },
+    ];
+
+    if (item.status === "failed") {
+      accessories.unshift({ tag: { value: "Failed", color: Color.Red }, tooltip: item.error });
+    } else if (item.copiedTo) {
+      accessories.unshift({ icon: Icon.Checkmark, tooltip: `Copied to ${item.copiedTo}` });
+    }
+    accessories.push({
+      text: formatAge(new Date(item.completedAt ?? item.requestedAt)),
+      tooltip: item.completedAt
+        ? `Finished ${new Date(item.completedAt).toLocaleString()}`
+        : `Requested ${new Date(item.requestedAt).toLocaleString()}`,
+    });
+
+    return (
+      <List.Item
+        key={`${item.driveUUID}-${item.relativePath}`}
+        title={name}
+        subtitle={item.relativePath}
+        icon={item.kind === "folder" ? Icon.Folder : Icon.Document}
+        accessories={accessories}
+        actions={
+          <ActionPanel>
+            {item.copiedTo && (
+              <Action title="Show Copy in Finder" icon={Icon.Finder} onAction={() => showInFinder(item.copiedTo!)} />
+            )}
+            {item.status !== "pending" && (
+              <Action
+                title="Request Again"
+                icon={Icon.Download}
+                onAction={() => {
+                  retryRetrieval(item.driveUUID, item.relativePath);
+                  reload();
+                }}
+              />
+            )}
+            <Action
+              title="Remove from Queue"
+              icon={Icon.XMarkCircle}
+              style={Action.Style.Destructive}
+              shortcut={{ modifiers: ["ctrl"], key: "x" }}
+              onAction={() => {
+                removeRetrieval(item.driveUUID, item.relativePath);
+                reload();
+              }}
+            />
+            {queueActions}
+            <FileActions
+              driveUUID={item.driveUUID}
+              driveName={item.driveName}
+              entry={{ name, relativePath: item.relativePath }}
+              kind={item.kind}
+            />
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
+  return (
+    <List searchBarPlaceholder="Filter requested files...">
+      {queue.items.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.Download}
+          title="No Requested Files"
+          description="Use Request When Connected on a file from an offline drive to queue it here"
+          actions={<ActionPanel>{queueActions}</ActionPanel>}
+        />
+      ) : (
+        SECTIONS.map(({ status, title }) => {
+          const items = queue.items
+            .filter((item) => item.status === status)
+            .sort((a, b) => (b.completedAt ?? b.requestedAt) - (a.completedAt ?? a.requestedAt));
+          return (
+            <List.Section key={status} title={title} subtitle={`${items.length}`}>
+              {items.map(renderItem)}
+            </List.Section>
+          );
+        })
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from "react";
+import { Stats } from "fs";
+import { open, stat } from "fs/promises";
+import { pathToFileURL } from "url";
+import { Color, Icon, List } from "@raycast/api";
+import { getProgressIcon } from "@raycast/utils";
+import { SearchEntry, SearchResult, getFullPath } from "./drivebuddy";
+import { DriveStatus, getDriveStatus, getUsedFraction } from "./driveStatus";
+import { FolderNode, findFolder, listFolder, loadFolderTree } from "./folderTree";
+import { getExtension } from "./query";
+import { escapeMarkdown, formatAge, formatBytes, formatCount } from "./format";
+
+const MAX_SIBLINGS = 25;
+const TEXT_PREVIEW_BYTES = 4 * 1024;
+// How long a drive's status is reused while moving between its results
+const STATUS_TTL_MS = 5000;
+
+// Shown inline; other images, such as RAW photos, would only render as a broken link
+const PREVIEW_IMAGE_EXTENSIONS = new Set(["jpg", "jpeg", "png", "gif", "webp", "heic", "tif", "tiff", "bmp", "svg"]);
+const PREVIEW_TEXT_EXTENSIONS = new Set([
+  "txt", "md", "csv", "log", "json", "xml", "yml", "yaml", "srt", "vtt", "edl", "fcpxml", "ale", "html", "js", "ts",
+  "py", "sh",
+]);
+
+/**
+ * The other entries in a result's folder, as listed in the index
+ */
+interface Siblings {
+  folders: FolderNode[];
+  files: SearchEntry[];
+}
+
+/**
+ * What the detail pane reads from the drive itself while it is mounted
+ */
+interface MountedEntry {
+  stats: Stats;
+  preview: string;
+}
+
+const driveStatuses = new Map<string, { status: DriveStatus | null; loadedAt: number }>();
+
+/**
+ * Drive status shared by the results of one drive, re-read after a few seconds
+ */
+function getRecentDriveStatus(volumeUUID: string): DriveStatus | null {
+  const cached = driveStatuses.get(volumeUUID);
+  if (cached && Date.now() - cached.loadedAt < STATUS_TTL_MS) {
+    return cached.status;
+  }
+  const status = getDriveStatus(volumeUUID);
+  driveStatuses.set(volumeUUID, { status, loadedAt: Date.now() });
+  return status;
+}
+
+/**
+ * Detail pane for a search result: breadcrumb, drive metadata from DriveBuddy and
+ * the index, the other entries in its folder, and a preview while the drive is mounted
+ * Everything is loaded after rendering, so moving through results stays responsive.
+ */
+export function ResultDetail({ result }: { result: SearchResult }) {
+  const [status, setStatus] = useState<DriveStatus | null>(null);
+  const [siblings, setSiblings] = useState<Siblings | null>(null);
+  const [mounted, setMounted] = useState<MountedEntry | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const parentPath = result.entry.relativePath.split("/").slice(0, -1).join("/");
+    let cancelled = false;
+    setIsLoading(true);
+    setMounted(null);
+    (async () => {
+      try {
+        const driveStatus = getRecentDriveStatus(result.driveUUID);
+        if (cancelled) return;
+        setStatus(driveStatus);
+
+        const [tree, entry] = await Promise.all([
+          loadFolderTree(result.driveUUID).catch((error) => {
+            console.error(`Failed to list ${parentPath || "/"} on ${result.driveName}:`, error);
+            return null;
+          }),
+          driveStatus?.mountPoint
+            ? readMountedEntry(getFullPath(result.driveUUID, result.entry.relativePath))
+            : Promise.resolve(null),
+        ]);
+        const parent = tree && findFolder(tree, parentPath);
+        if (!cancelled) {
+          setSiblings(parent ? listFolder(parent) : null);
+          setMounted(entry);
+        }
+      } catch (error) {
+        console.error(`Failed to read the status of ${result.driveName}:`, error);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [result.driveUUID, result.entry.relativePath]);
+
+  const markdown = [
+    `## ${escapeMarkdown(result.entry.name)}`,
+    [result.driveName, ...result.entry.relativePath.split("/")].map(escapeMarkdown).join(" › "),
+    mounted?.preview ?? "",
+    siblings ? renderSiblings(siblings, result) : "",
+  ]
+    .filter((section) => section.length > 0)
+    .join("\n\n");
+
+  return (
+    <List.Item.Detail
+      isLoading={isLoading}
+      markdown={markdown}
+      metadata={<DriveMetadata result={result} status={status} stats={mounted?.stats ?? null} />}
+    />
+  );
+}
+
+function DriveMetadata({
+  result,
+  status,
+  stats,
+}: {
+  result: SearchResult;
+  status: DriveStatus | null;
+  stats: Stats | null;
+}) {
+  const used = status ? getUsedFraction(status) : null;
+  const drive = status?.drive;
+  const describeDate = (date: Date | null | undefined) =>
+    date ? `${date.toLocaleString()} (${formatAge(date)})` : "Unknown";
+
+  return (
+    <List.Item.Detail.Metadata>
+      <List.Item.Detail.Metadata.Label
+        title="Drive"
+        text={result.driveName}
+        icon={{
+          source: status?.mountPoint ? Icon.CircleFilled : Icon.Circle,
+          tintColor: status?.mountPoint ? Color.Green : Color.SecondaryText,
+        }}
+      />
+      <List.Item.Detail.Metadata.Label
+        title="Status"
+        text={status?.mountPoint ? `Connected at ${status.mountPoint}` : "Offline"}
+      />
+      {drive?.summary && <List.Item.Detail.Metadata.Label title="Summary" text={drive.summary} />}
+      {used !== null && (
+        <List.Item.Detail.Metadata.Label
+          title="Capacity"
+          text={`${formatBytes(drive!.availableSize!)} free of ${formatBytes(drive!.totalSize!)}`}
+          icon={getProgressIcon(used, used > 0.9 ? Color.Red : Color.Blue)}
+        />
+      )}
+      <List.Item.Detail.Metadata.Label title="Last Seen" text={describeDate(status?.lastSeen)} />
+      <List.Item.Detail.Metadata.Label title="Indexed" text={describeDate(status?.indexedAt)} />
+      <List.Item.Detail.Metadata.Separator />
+      <List.Item.Detail.Metadata.Label title="Kind" text={result.kind === "folder" ? "Folder" : "File"} />
+      {result.kind === "folder" && result.descendantCount !== undefined && (
+        <List.Item.Detail.Metadata.Label title="Items Inside" text={formatCount(result.descendantCount)} />
+      )}
+      {stats && stats.isFile() && <List.Item.Detail.Metadata.Label title="Size" text={formatBytes(stats.size)} />}
+      {stats && <List.Item.Detail.Metadata.Label title="Modified" text={stats.mtime.toLocaleString()} />}
+      <List.Item.Detail.Metadata.Label title="Volume UUID" text={result.driveUUID} />
+    </List.Item.Detail.Metadata>
+  );
+}
+
+async function readMountedEntry(fullPath: string): Promise<MountedEntry | null> {
+  let stats: Stats;
+  try {
+    stats = await stat(fullPath);
+  } catch {
+    // Moved or deleted since the drive was indexed
+    return null;
+  }
+  return { stats, preview: await renderPreview(fullPath, stats) };
+}
+
+/**
+ * An image, or the start of a text file, read from the mounted drive
+ */
+async function renderPreview(fullPath: string, stats: Stats): Promise<string> {
+  if (!stats.isFile()) {
+    return "";
+  }
+
+  const extension = getExtension(fullPath);
+  if (PREVIEW_IMAGE_EXTENSIONS.has(extension)) {
+    return `<img src="${pathToFileURL(fullPath).href}" alt="Preview" height="180" />`;
+  }
+  if (!PREVIEW_TEXT_EXTENSIONS.has(extension)) {
+    return "";
+  }
+
+  try {
+    const buffer = Buffer.alloc(Math.min(stats.size, TEXT_PREVIEW_BYTES));
+    const file = await open(fullPath, "r");
+    let bytesRead: number;
+    try {
+      ({ bytesRead } = await file.read(buffer, 0, buffer.length, 0));
+    } finally {
+      await file.close();
+    }
+    const text = buffer.toString("utf8", 0, bytesRead) + (stats.size > TEXT_PREVIEW_BYTES ? "\n…" : "");
+    // The fence must be longer than any run of backticks in the file
+    const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = "`".repeat(Math.max(3, longestRun + 1));
+    return `${fence}\n${text}\n${fence}`;
+  } catch (error) {
+    console.error(`Failed to preview ${fullPath}:`, error);
+    return "";
+  }
+}
+
+/**
+ * The folder's other entries from the index, folders first, with the result itself in bold
+ */
+function renderSiblings({ folders, files }: Siblings, result: SearchResult): string {
+  const names = [...folders.map((folder) => `${folder.name}/`), ...files.map((file) => file.name)];
+  const own = result.kind === "folder" ? `${result.entry.name}/` : result.entry.name;
+  const lines = names
+    .slice(0, MAX_SIBLINGS)
+    .map((name) => (name === own ? `- **${escapeMarkdown(name)}**` : `- ${escapeMarkdown(name)}`));
+  if (names.length > MAX_SIBLINGS) {
+    lines.push(`- … and ${formatCount(names.length - MAX_SIBLINGS)} more`);
+  }
+  return `### In This Folder (${formatCount(names.length)})\n\n${lines.join("\n")}`;
+}
@@ -0,0 +1,205 @@
+import { existsSync, mkdirSync } from "fs";
+import { cp } from "fs/promises";
+import { basename } from "path";
+import { EntryKind, getFullPath, getMountPoint } from "./drivebuddy";
+import { DriveBuddyDataSource, getDataSource } from "./dataSource";
+import { getMountResolver } from "./mounts";
+import { getAvailablePath } from "./paths";
+
+export type RetrievalStatus = "pending" | "done" | "failed";
+
+/**
+ * A file or folder requested from a drive that was offline at the time
+ */
+export interface RetrievalRequest {
+  driveUUID: string;
+  driveName: string;
+  relativePath: string;
+  kind: EntryKind;
+  status: RetrievalStatus;
+  requestedAt: number; // Timestamp
+  completedAt?: number; // Timestamp
+  // Where the entry was copied, when a retrieval folder is configured
+  copiedTo?: string;
+  error?: string;
+}
+
+export interface RetrievalQueue {
+  items: RetrievalRequest[];
+}
+
+/**
+ * Requests that became available in one pass over the queue
+ */
+export interface RetrievalOutcome {
+  driveName: string;
+  done: RetrievalRequest[];
+  failed: RetrievalRequest[];
+}
+
+export interface ProcessQueueOptions {
+  /**
+   * Folder to copy requested entries into once their drive connects; null only marks them done
+   */
+  destination?: string | null;
+  source?: DriveBuddyDataSource;
+}
+
+/**
+ * Loads the retrieval queue from disk
+ */
+export function loadRetrievalQueue(source: DriveBuddyDataSource = getDataSource()): RetrievalQueue {
+  try {
+    const content = source.readRetrievalQueue();
+    if (content === null) {
+      return { items: [] };
+    }
+    return JSON.parse(content) as RetrievalQueue;
+  } catch (error) {
+    console.error("Failed to load retrieval queue:", error);
+    return { items: [] };
+  }
+}
+
+/**
+ * Saves the retrieval queue to disk
+ */
+function saveRetrievalQueue(queue: RetrievalQueue, source: DriveBuddyDataSource): void {
+  try {
+    source.writeRetrievalQueue(JSON.stringify(queue, null, 2));
+  } catch (error) {
+    console.error("Failed to save retrieval queue:", error);
+  }
+}
+
+function isSameEntry(item: RetrievalRequest, driveUUID: string, relativePath: string): boolean {
+  return item.driveUUID === driveUUID && item.relativePath === relativePath;
+}
+
+/**
+ * Queues an entry until its drive connects; requesting it again re-queues it
+ * Returns false if it was already pending
+ */
+export function requestRetrieval(
+  driveUUID: string,
+  driveName: string,
+  relativePath: string,
+  kind: EntryKind = "file",
+  source: DriveBuddyDataSource = getDataSource()
+): boolean {
+  const queue = loadRetrievalQueue(source);
+  if (queue.items.some((item) => isSameEntry(item, driveUUID, relativePath) && item.status === "pending")) {
+    return false;
+  }
+
+  queue.items = queue.items.filter((item) => !isSameEntry(item, driveUUID, relativePath));
+  queue.items.push({ driveUUID, driveName, relativePath, kind, status: "pending", requestedAt: Date.now() });
+  saveRetrievalQueue(queue, source);
+  return true;
+}
+
+/**
+ * Puts a failed or finished request back in the queue
+ */
+export function retryRetrieval(
+  driveUUID: string,
+  relativePath: string,
+  source: DriveBuddyDataSource = getDataSource()
+): void {
+  const queue = loadRetrievalQueue(source);
+  for (const item of queue.items) {
+    if (isSameEntry(item, driveUUID, relativePath)) {
+      item.status = "pending";
+      delete item.completedAt;
+      delete item.copiedTo;
+      delete item.error;
+    }
+  }
+  saveRetrievalQueue(queue, source);
+}
+
+/**
+ * Removes a request from the queue
+ */
+export function removeRetrieval(
+  driveUUID: string,
+  relativePath: string,
+  source: DriveBuddyDataSource = getDataSource()
+): void {
+  const queue = loadRetrievalQueue(source);
+  queue.items = queue.items.filter((item) => !isSameEntry(item, driveUUID, relativePath));
+  saveRetrievalQueue(queue, source);
+}
+
+/**
+ * Removes every request that is no longer pending
+ */
+export function clearFinishedRetrievals(source: DriveBuddyDataSource = getDataSource()): void {
+  const queue = loadRetrievalQueue(source);
+  queue.items = queue.items.filter((item) => item.status === "pending");
+  saveRetrievalQueue(queue, source);
+}
+
+/**
+ * Completes pending requests whose drive is now mounted, copying them into
+ * the destination folder when one is given
+ *
+ * Returns one outcome per drive that had pending requests, so callers can
+ * notify once per connected drive.
+ */
+export async function processRetrievalQueue(options: ProcessQueueOptions = {}): Promise<RetrievalOutcome[]> {
+  const { destination = null, source = getDataSource() } = options;
+  const queue = loadRetrievalQueue(source);
+  const outcomes = new Map<string, RetrievalOutcome>();
+  await getMountResolver().refresh();
+
+  for (const item of queue.items) {
+    if (item.status !== "pending" || getMountPoint(item.driveUUID, source) === null) {
+      continue;
+    }
+
+    let outcome = outcomes.get(item.driveUUID);
+    if (!outcome) {
+      outcome = { driveName: item.driveName, done: [], failed: [] };
+      outcomes.set(item.driveUUID, outcome);
+    }
+
+    if (destination) {
+      const from = getFullPath(item.driveUUID, item.relativePath, source);
+      try {
+        mkdirSync(destination, { recursive: true });
+        const to = getAvailablePath(destination, basename(item.relativePath));
+        if (!existsSync(from)) {
+          throw new Error(`Not found on ${item.driveName}; it may have been moved since the drive was indexed`);
+        }
+        await cp(from, to, { recursive: true, errorOnExist: true, force: false, preserveTimestamps: true });
+        item.copiedTo = to;
+      } catch (error) {
+        console.error(`Failed to retrieve ${from}:`, error);
+        item.status = "failed";
+        item.completedAt = Date.now();
+        item.error = error instanceof Error ? error.message : String(error);
+        outcome.failed.push(item);
+        continue;
+      }
+    }
+
+    item.status = "done";
+    item.completedAt = Date.now();
+    outcome.done.push(item);
+  }
+
+  if (outcomes.size > 0) {
+    // Copies can take a while, so merge into the latest queue rather than overwrite requests made meanwhile
+    const latest = loadRetrievalQueue(source);
+    const processed = Array.from(outcomes.values()).flatMap((outcome) => [...outcome.done, ...outcome.failed]);
+    latest.items = latest.items.map(
+      (item) =>
+        processed.find(
+          (done) => isSameEntry(done, item.driveUUID, item.relativePath) && done.requestedAt === item.requestedAt
+        ) ?? item
+    );
+    saveRetrievalQueue(latest, source);
+  }
+  return Array.from(outcomes.values());
+}
@@ -0,0 +1,34 @@
+import { LaunchType, environment, getPreferenceValues, showHUD } from "@raycast/api";
+import { RetrievalOutcome, loadRetrievalQueue, processRetrievalQueue } from "./retrievalQueue";
+import { configureDataSource } from "./preferences";
+
+interface Preferences {
+  retrievalFolder?: string;
+}
+
+/**
+ * Background command: checks whether drives with requested files have connected,
+ * copies the files if a retrieval folder is set, and reports each drive in a HUD
+ */
+export default async function Command() {
+  configureDataSource();
+
+  const { retrievalFolder } = getPreferenceValues<Preferences>();
+  const destination = retrievalFolder?.trim() || null;
+  const outcomes = await processRetrievalQueue({ destination });
+
+  if (outcomes.length > 0) {
+    await showHUD(outcomes.map((outcome) => describeOutcome(outcome, destination !== null)).join(" · "));
+  } else if (environment.launchType === LaunchType.UserInitiated) {
+    const pending = loadRetrievalQueue().items.filter((item) => item.status === "pending").length;
+    await showHUD(pending > 0 ? `Waiting for drives to connect (${pending} requested)` : "No files requested");
+  }
+}
+
+function describeOutcome(outcome: RetrievalOutcome, copied: boolean): string {
+  const count = outcome.done.length;
+  const files = `${count} requested ${count === 1 ? "item" : "items"}`;
+  const done = copied ? `copied ${files}` : `${files} available`;
+  const failed = outcome.failed.length > 0 ? `, ${outcome.failed.length} failed` : "";
+  return `${outcome.driveName} connected: ${done}${failed}`;
+}
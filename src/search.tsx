@@ -1,32 +1,88 @@
 import React, { useState, useEffect } from "react";
-import { List, Action, ActionPanel, Icon, Color, showToast, Toast, Keyboard, getPreferenceValues, open } from "@raycast/api";
+import {
+  List,
+  Action,
+  ActionPanel,
+  Icon,
+  Color,
+  LaunchProps,
+  showToast,
+  Toast,
+  getPreferenceValues,
+} from "@raycast/api";
 import { useCachedState } from "@raycast/utils";
 import {
-  searchDrives,
   searchDrivesAsync,
   SearchResult,
+  SearchScope,
   isDriveMounted,
-  getFullPath,
   getRecentFiles,
-  recordFileAccess,
+  getPinnedFiles,
 } from "./drivebuddy";
+import { FileActions } from "./fileActions";
+import { FavoriteActions } from "./favoriteActions";
+import { ExportForm } from "./exportForm";
+import { SelectionActions, getSelectionKey } from "./selectionActions";
+import { ResultDetail } from "./resultDetail";
+import { exportSearchResults } from "./catalogExport";
+import { FavoritesStore, findFavorite, loadFavorites } from "./favorites";
+import { QuerySyntaxError } from "./query";
+import { configureDataSource, parseCountPreference, parseWeightPreference } from "./preferences";
+import { formatCount } from "./format";
+import { FILE_CATEGORIES, FileCategory, getFileCategory } from "./categories";
+import { DEFAULT_FRECENCY_WEIGHT } from "./frecency";
+
+const DEFAULT_MAX_RESULTS = 100;
+
+const CATEGORY_ICONS: Record<FileCategory, Icon> = {
+  video: Icon.Video,
+  audio: Icon.Music,
+  image: Icon.Image,
+  document: Icon.Document,
+  archive: Icon.Box,
+  project: Icon.Code,
+  other: Icon.BlankDocument,
+};
 
 interface Preferences {
   showDriveStatus: boolean;
   maxResults: string;
+  frecencyWeight: string;
 }
 
-export default function Command() {
-  const [searchText, setSearchText] = useState("");
+interface SearchLaunchContext {
+  // Initial search bar text, e.g. a drive: filter from the menu bar
+  searchText?: string;
+}
+
+export default function Command(props: LaunchProps<{ launchContext?: SearchLaunchContext }>) {
+  configureDataSource();
+
+  const [searchText, setSearchText] = useState(props.launchContext?.searchText ?? "");
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [pinnedResults, setPinnedResults] = useState<SearchResult[]>([]);
+  const [favorites, setFavorites] = useState<FavoritesStore>(() => loadFavorites());
+  // Marked results, kept while searching again so a batch can span several searches and drives
+  const [selection, setSelection] = useState<Map<string, SearchResult>>(new Map());
+  const [showDetail, setShowDetail] = useCachedState("search-show-detail", false);
+  // Only the highlighted item renders its detail pane, which reads the drive and its folder tree
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [queryError, setQueryError] = useState<string | null>(null);
+  // "all", "files", "folders" or "category:<name>", as chosen in the search bar dropdown
+  const [filter, setFilter] = useState("all");
+  const category = filter.startsWith("category:") ? (filter.slice("category:".length) as FileCategory) : undefined;
+  const scope = category ? "files" : (filter as SearchScope);
   const preferences = getPreferenceValues<Preferences>();
 
 
   useEffect(() => {
+    setQueryError(null);
+
     if (!searchText.trim()) {
-      // Load recent files when no search text
+      // Load pinned and recent files when no search text
       setIsLoading(true);
+      setPinnedResults(getPinnedFiles());
       const recentFiles = getRecentFiles(20);
       setResults(recentFiles);
       setIsLoading(false);
@@ -34,13 +90,37 @@ export default function Command() {
     }
 
     setIsLoading(true);
+    // Aborted when the query changes, so a stale search can't overwrite newer results
+    const controller = new AbortController();
     const timeoutId = setTimeout(async () => {
       try {
-        const maxResults = parseInt(preferences.maxResults || "100");
+        const maxResults = parseCountPreference(preferences.maxResults, DEFAULT_MAX_RESULTS);
         // Use async streaming search to handle large files without memory issues
-        const searchResults = await searchDrivesAsync(searchText, maxResults);
+        // Partial results are shown as each drive finishes scanning
+        const searchResults = await searchDrivesAsync(searchText, maxResults, {
+          signal: controller.signal,
+          scope,
+          category,
+          frecencyWeight: parseWeightPreference(preferences.frecencyWeight, DEFAULT_FRECENCY_WEIGHT),
+          onProgress: (partialResults) => {
+            if (!controller.signal.aborted) {
+              setResults(partialResults);
+            }
+          },
+        });
         setResults(searchResults);
       } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        if (error instanceof QuerySyntaxError) {
+          // Syntax errors are shown in place of results rather than as a toast
+          setQueryError(error.message);
+          setResults([]);
+          return;
+        }
+
         console.error("Search error:", error);
         showToast({
           style: Toast.Style.Failure,
@@ -49,17 +129,36 @@ export default function Command() {
         });
         setResults([]);
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
       }
     }, 200); // Debounce search
 
-    return () => clearTimeout(timeoutId);
-  }, [searchText, preferences.maxResults]);
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [searchText, filter, preferences.maxResults, preferences.frecencyWeight]);
+
+  const refreshFavorites = () => {
+    setFavorites(loadFavorites());
+    setPinnedResults(getPinnedFiles());
+  };
+
+  const getFavorite = (result: SearchResult) =>
+    findFavorite(favorites, result.driveUUID, result.entry.relativePath);
 
   const getSubtitle = (result: SearchResult): string => {
     // Get the parent directory path (everything except the filename)
     const pathParts = result.entry.relativePath.split('/');
-    const parentPath = pathParts.slice(0, -1).join('/');
+    const matched = new Set(result.matchedSegments ?? []);
+
+    // Folders that matched the query are highlighted with brackets
+    const parentPath = pathParts
+      .slice(0, -1)
+      .map((part, i) => (matched.has(i) ? `[${part}]` : part))
+      .join('/');
 
     return parentPath || '/';
   };
@@ -67,6 +166,25 @@ export default function Command() {
   const getAccessories = (result: SearchResult) => {
     const accessories = [];
 
+    if (selection.has(getSelectionKey(result))) {
+      accessories.push({ icon: { source: Icon.CheckCircle, tintColor: Color.Green }, tooltip: "Selected" });
+    }
+
+    // Folders show how many entries they contain
+    if (result.kind === "folder" && result.descendantCount !== undefined) {
+      accessories.push({
+        text: `${formatCount(result.descendantCount)} ${result.descendantCount === 1 ? "item" : "items"}`,
+        tooltip: "Entries inside this folder",
+      });
+    }
+
+    // Tags and pins set from the Favorites actions
+    const favorite = getFavorite(result);
+    favorite?.tags.forEach((tag) => accessories.push({ tag: { value: tag, color: Color.Purple } }));
+    if (favorite?.pinnedAt != null) {
+      accessories.push({ icon: Icon.Pin, tooltip: "Pinned" });
+    }
+
     // Add drive name
     accessories.push({
       text: result.driveName,
@@ -74,7 +192,7 @@ export default function Command() {
 
     // Show drive status icon
     if (preferences.showDriveStatus) {
-      const mounted = isDriveMounted(result.driveName);
+      const mounted = isDriveMounted(result.driveUUID);
       accessories.push({
         icon: {
           source: mounted ? Icon.CircleFilled : Icon.Circle,
@@ -87,120 +205,146 @@ export default function Command() {
     return accessories;
   };
 
-  const handleRevealInFinder = async (result: SearchResult, fullPath: string) => {
-    recordFileAccess(result.driveUUID, result.entry.relativePath);
-    await open(fullPath, "Finder");
-  };
+  // The breadcrumb in the detail pane replaces the subtitle
+  const getItemProps = (id: string, result: SearchResult) => ({
+    id,
+    title: result.entry.name,
+    subtitle: showDetail ? undefined : getSubtitle(result),
+    accessories: getAccessories(result),
+    detail: showDetail && id === selectedItemId ? <ResultDetail result={result} /> : undefined,
+    actions: renderActions(result),
+  });
 
-  const handleOpenFile = async (result: SearchResult, fullPath: string) => {
-    recordFileAccess(result.driveUUID, result.entry.relativePath);
-    await open(fullPath);
-  };
+  const renderActions = (result: SearchResult) => (
+    <ActionPanel>
+      <FileActions
+        driveUUID={result.driveUUID}
+        driveName={result.driveName}
+        entry={result.entry}
+        kind={result.kind}
+      />
+      <ActionPanel.Section title="View">
+        <Action
+          title={showDetail ? "Hide Details" : "Show Details"}
+          icon={Icon.Sidebar}
+          shortcut={{ modifiers: ["cmd"], key: "i" }}
+          onAction={() => setShowDetail(!showDetail)}
+        />
+      </ActionPanel.Section>
+      <FavoriteActions
+        driveUUID={result.driveUUID}
+        entry={result.entry}
+        kind={result.kind}
+        favorite={getFavorite(result)}
+        onChange={refreshFavorites}
+      />
+      <SelectionActions result={result} selection={selection} results={results} onChange={setSelection} />
+      {searchText && results.length > 0 && (
+        <ActionPanel.Section title="Export">
+          <Action.Push
+            title="Export Results…"
+            icon={Icon.Download}
+            shortcut={{ modifiers: ["cmd"], key: "e" }}
+            target={
+              <ExportForm
+                navigationTitle={`Export ${formatCount(results.length)} Results`}
+                baseName="drivebuddy-search"
+                onExport={(path, format, onProgress) => exportSearchResults(results, path, format, { onProgress })}
+              />
+            }
+          />
+        </ActionPanel.Section>
+      )}
+    </ActionPanel>
+  );
+
+  // Pinned files are listed once, in their own section above recents
+  const recentResults = searchText
+    ? results
+    : results.filter((result) => getFavorite(result)?.pinnedAt == null);
 
   return (
     <List
       isLoading={isLoading}
+      isShowingDetail={showDetail}
+      onSelectionChange={setSelectedItemId}
       onSearchTextChange={setSearchText}
-      searchBarPlaceholder="Search files and folders across all drives..."
+      searchBarPlaceholder='Search all drives... (drive:"Name" ext:mov path:folder -exclude)'
       throttle
       searchText={searchText}
+      searchBarAccessory={
+        <List.Dropdown tooltip="Filter Results" storeValue onChange={setFilter}>
+          <List.Dropdown.Section>
+            <List.Dropdown.Item title="Files and Folders" value="all" />
+            <List.Dropdown.Item title="Files Only" value="files" icon={Icon.Document} />
+            <List.Dropdown.Item title="Folders Only" value="folders" icon={Icon.Folder} />
+          </List.Dropdown.Section>
+          <List.Dropdown.Section title="File Type">
+            {FILE_CATEGORIES.map(({ category, title }) => (
+              <List.Dropdown.Item
+                key={category}
+                title={title}
+                value={`category:${category}`}
+                icon={CATEGORY_ICONS[category]}
+              />
+            ))}
+          </List.Dropdown.Section>
+        </List.Dropdown>
+      }
     >
-      {results.length === 0 && !isLoading && !searchText ? (
+      {recentResults.length === 0 && pinnedResults.length === 0 && selection.size === 0 && !isLoading && !searchText ? (
         <List.EmptyView
           icon={Icon.Clock}
           title="No Recent Files"
-          description="Recently accessed files will appear here. Start searching to find files!"
+          description="Recently accessed and pinned files will appear here. Start searching to find files!"
+        />
+      ) : !searchText ? (
+        <>
+          <List.Section title="Selected" subtitle={selection.size > 0 ? formatCount(selection.size) : undefined}>
+            {Array.from(selection.values()).map((result) => (
+              <List.Item
+                key={`selected-${getSelectionKey(result)}`}
+                {...getItemProps(`selected-${getSelectionKey(result)}`, result)}
+                icon={{
+                  source: result.kind === "folder" ? Icon.Folder : CATEGORY_ICONS[getFileCategory(result.entry.name)],
+                  tintColor: Color.Green,
+                }}
+              />
+            ))}
+          </List.Section>
+          <List.Section title="Pinned">
+            {pinnedResults.map((result) => (
+              <List.Item
+                key={`pinned-${result.driveUUID}-${result.entry.relativePath}`}
+                {...getItemProps(`pinned-${result.driveUUID}-${result.entry.relativePath}`, result)}
+                icon={{
+                  source: result.kind === "folder" ? Icon.Folder : Icon.Pin,
+                  tintColor: Color.Orange,
+                }}
+              />
+            ))}
+          </List.Section>
+          <List.Section title="Recent">
+            {recentResults.map((result, index) => {
+              return (
+                <List.Item
+                  key={`recent-${result.driveUUID}-${index}`}
+                  {...getItemProps(`recent-${result.driveUUID}-${index}`, result)}
+                  icon={{
+                    source: Icon.Clock,
+                    tintColor: Color.Blue,
+                  }}
+                />
+              );
+            })}
+          </List.Section>
+        </>
+      ) : queryError && !isLoading ? (
+        <List.EmptyView
+          icon={{ source: Icon.ExclamationMark, tintColor: Color.Red }}
+          title="Invalid Search Query"
+          description={queryError}
         />
-      ) : !searchText && results.length > 0 ? (
-        results.map((result, index) => {
-          const fullPath = getFullPath(result.driveName, result.entry.relativePath);
-          const mounted = isDriveMounted(result.driveName);
-
-          return (
-            <List.Item
-              key={`recent-${result.driveUUID}-${index}`}
-              title={result.entry.name}
-              subtitle={getSubtitle(result)}
-              accessories={getAccessories(result)}
-              icon={{
-                source: Icon.Clock,
-                tintColor: Color.Blue,
-              }}
-              actions={
-                <ActionPanel>
-                  {mounted ? (
-                    <>
-                      <ActionPanel.Section title="File Actions">
-                        <Action
-                          title="Reveal in Finder"
-                          icon={Icon.Finder}
-                          onAction={() => handleRevealInFinder(result, fullPath)}
-                        />
-                        <Action
-                          title="Open File"
-                          icon={Icon.Document}
-                          shortcut={Keyboard.Shortcut.Common.Open}
-                          onAction={() => handleOpenFile(result, fullPath)}
-                        />
-                      </ActionPanel.Section>
-                      <ActionPanel.Section title="Copy">
-                        <Action.CopyToClipboard
-                          title="Copy Full Path"
-                          content={fullPath}
-                          shortcut={Keyboard.Shortcut.Common.Copy}
-                        />
-                        <Action.CopyToClipboard
-                          title="Copy Relative Path"
-                          content={result.entry.relativePath}
-                          shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
-                        />
-                        <Action.CopyToClipboard
-                          title="Copy Filename"
-                          content={result.entry.name}
-                          shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
-                        />
-                      </ActionPanel.Section>
-                    </>
-                  ) : (
-                    <ActionPanel.Section title="Copy">
-                      <Action.CopyToClipboard
-                        title="Copy Full Path"
-                        content={fullPath}
-                        shortcut={Keyboard.Shortcut.Common.Copy}
-                      />
-                      <Action.CopyToClipboard
-                        title="Copy Relative Path"
-                        content={result.entry.relativePath}
-                        shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
-                      />
-                      <Action.CopyToClipboard
-                        title="Copy Filename"
-                        content={result.entry.name}
-                        shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
-                      />
-                    </ActionPanel.Section>
-                  )}
-
-                  <ActionPanel.Section title="Info">
-                    <Action
-                      title={mounted ? "Drive Connected" : "Drive Offline"}
-                      icon={mounted ? Icon.CircleFilled : Icon.Circle}
-                      onAction={() =>
-                        showToast({
-                          style: mounted ? Toast.Style.Success : Toast.Style.Animated,
-                          title: mounted
-                            ? `${result.driveName} is connected`
-                            : `${result.driveName} is offline`,
-                          message: mounted ? `Available at /Volumes/${result.driveName}` : "Connect the drive to access files",
-                        })
-                      }
-                    />
-                  </ActionPanel.Section>
-                </ActionPanel>
-              }
-            />
-          );
-        })
       ) : results.length === 0 && !isLoading ? (
         <List.EmptyView
           icon={Icon.MagnifyingGlass}
@@ -209,91 +353,14 @@ export default function Command() {
         />
       ) : (
         results.map((result, index) => {
-          const fullPath = getFullPath(result.driveName, result.entry.relativePath);
-          const mounted = isDriveMounted(result.driveName);
-
           return (
             <List.Item
               key={`${result.driveUUID}-${index}`}
-              title={result.entry.name}
-              subtitle={getSubtitle(result)}
-              accessories={getAccessories(result)}
+              {...getItemProps(`${result.driveUUID}-${index}`, result)}
               icon={{
-                source: Icon.Document,
+                source: result.kind === "folder" ? Icon.Folder : CATEGORY_ICONS[getFileCategory(result.entry.name)],
                 tintColor: Color.Blue,
               }}
-              actions={
-                <ActionPanel>
-                  {mounted ? (
-                    <>
-                      <ActionPanel.Section title="File Actions">
-                        <Action
-                          title="Reveal in Finder"
-                          icon={Icon.Finder}
-                          onAction={() => handleRevealInFinder(result, fullPath)}
-                        />
-                        <Action
-                          title="Open File"
-                          icon={Icon.Document}
-                          shortcut={Keyboard.Shortcut.Common.Open}
-                          onAction={() => handleOpenFile(result, fullPath)}
-                        />
-                      </ActionPanel.Section>
-                      <ActionPanel.Section title="Copy">
-                        <Action.CopyToClipboard
-                          title="Copy Full Path"
-                          content={fullPath}
-                          shortcut={Keyboard.Shortcut.Common.Copy}
-                        />
-                        <Action.CopyToClipboard
-                          title="Copy Relative Path"
-                          content={result.entry.relativePath}
-                          shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
-                        />
-                        <Action.CopyToClipboard
-                          title="Copy Filename"
-                          content={result.entry.name}
-                          shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
-                        />
-                      </ActionPanel.Section>
-                    </>
-                  ) : (
-                    <ActionPanel.Section title="Copy">
-                      <Action.CopyToClipboard
-                        title="Copy Full Path"
-                        content={fullPath}
-                        shortcut={Keyboard.Shortcut.Common.Copy}
-                      />
-                      <Action.CopyToClipboard
-                        title="Copy Relative Path"
-                        content={result.entry.relativePath}
-                        shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
-                      />
-                      <Action.CopyToClipboard
-                        title="Copy Filename"
-                        content={result.entry.name}
-                        shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
-                      />
-                    </ActionPanel.Section>
-                  )}
-
-                  <ActionPanel.Section title="Info">
-                    <Action
-                      title={mounted ? "Drive Connected" : "Drive Offline"}
-                      icon={mounted ? Icon.CircleFilled : Icon.Circle}
-                      onAction={() =>
-                        showToast({
-                          style: mounted ? Toast.Style.Success : Toast.Style.Animated,
-                          title: mounted
-                            ? `${result.driveName} is connected`
-                            : `${result.driveName} is offline`,
-                          message: mounted ? `Available at /Volumes/${result.driveName}` : "Connect the drive to access files",
-                        })
-                      }
-                    />
-                  </ActionPanel.Section>
-                </ActionPanel>
-              }
             />
           );
         })
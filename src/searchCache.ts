@@ -0,0 +1,521 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+import { readEntryKind, readGeneratedAt, streamIndexEntries } from "./indexReader";
+import { getInitials, normalizeText } from "./normalize";
+import { recordSnapshot } from "./snapshots";
+import { decodeVolumeUUID } from "./volumeUUID";
+import type { DriveBuddyDataSource } from "./dataSource";
+import type { EntryKind } from "./drivebuddy";
+
+/**
+ * Derived search structure for one DriveBuddy index file
+ *
+ * Holds a compact entry table (names, relative paths, kinds and descendant
+ * counts) plus a trigram posting list over lowercase names, so a query only
+ * scores entries that share trigrams with it instead of every entry in the index.
+ */
+export interface SearchCache {
+  sourceMtimeMs: number;
+  sourceSize: number;
+  generatedAt: number | null;
+  names: string[];
+  paths: string[];
+  // FOLDER or FILE per entry
+  kinds: Uint8Array;
+  // Number of entries below each folder; 0 for files
+  descendants: Uint32Array;
+  trigrams: Map<string, Uint32Array>;
+}
+
+const FILE = 0;
+const FOLDER = 1;
+
+interface CacheHeader {
+  version: number;
+  sourceMtimeMs: number;
+  sourceSize: number;
+  generatedAt: number | null;
+  entryCount: number;
+  trigrams: string[];
+  postingCounts: number[];
+}
+
+const CACHE_MAGIC = "DBTI";
+const CACHE_VERSION = 3;
+
+// Parsed caches stay in memory between keystrokes
+const memoryCache = new Map<string, SearchCache>();
+
+/**
+ * Returns the unique trigrams of a lowercase string
+ */
+export function getTrigrams(text: string): string[] {
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) {
+    trigrams.add(text.slice(i, i + 3));
+  }
+  return Array.from(trigrams);
+}
+
+/**
+ * Trigrams indexed for a filename: those of its normalized form plus those of
+ * its word initials, so acronym queries like "mpf" find my_project_final
+ */
+function getIndexTrigrams(name: string): string[] {
+  return Array.from(new Set([...getTrigrams(normalizeText(name)), ...getTrigrams(getInitials(name))]));
+}
+
+/**
+ * Whether a cached entry is a file or a folder
+ */
+export function getEntryKind(cache: SearchCache, id: number): EntryKind {
+  return cache.kinds[id] === FOLDER ? "folder" : "file";
+}
+
+/**
+ * Counts the entries below every folder, keyed by relative path
+ *
+ * Each entry is counted once in its parent folder, then totals are carried up
+ * from the deepest folders, so the work is proportional to the number of
+ * folders rather than entries times depth. Folders that only appear as path
+ * prefixes (with no entry of their own) are included.
+ */
+function countDescendants(paths: string[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  const parentOf = (path: string) => path.slice(0, Math.max(0, path.lastIndexOf("/")));
+
+  for (const path of paths) {
+    const parent = parentOf(path);
+    if (parent) {
+      totals.set(parent, (totals.get(parent) ?? 0) + 1);
+    }
+  }
+
+  // Make sure every ancestor exists before carrying totals up
+  for (const dir of Array.from(totals.keys())) {
+    for (let parent = parentOf(dir); parent && !totals.has(parent); parent = parentOf(parent)) {
+      totals.set(parent, 0);
+    }
+  }
+
+  const depth = (path: string) => path.split("/").length;
+  const deepestFirst = Array.from(totals.keys()).sort((a, b) => depth(b) - depth(a));
+  for (const dir of deepestFirst) {
+    const parent = parentOf(dir);
+    if (parent) {
+      totals.set(parent, totals.get(parent)! + totals.get(dir)!);
+    }
+  }
+
+  return totals;
+}
+
+function getCachePath(cacheDir: string, indexFile: string): string {
+  return join(cacheDir, indexFile.replace(/\.json$/, ".trigrams"));
+}
+
+/**
+ * Builds a search cache by streaming the source index file
+ */
+export async function buildSearchCache(source: DriveBuddyDataSource, indexFile: string): Promise<SearchCache> {
+  const stats = source.statIndexFile(indexFile);
+  if (!stats) {
+    throw new Error(`Index file not found: ${indexFile}`);
+  }
+  const names: string[] = [];
+  const paths: string[] = [];
+  const explicitKinds: (EntryKind | undefined)[] = [];
+  const postings = new Map<string, number[]>();
+
+  const generatedAt = await streamIndexEntries(source.openIndexFile(indexFile), (entry) => {
+    const id = names.length;
+    names.push(entry.name);
+    paths.push(entry.relativePath);
+    explicitKinds.push(readEntryKind(entry));
+
+    for (const trigram of getIndexTrigrams(entry.name)) {
+      let list = postings.get(trigram);
+      if (!list) {
+        list = [];
+        postings.set(trigram, list);
+      }
+      list.push(id);
+    }
+  });
+
+  const trigrams = new Map<string, Uint32Array>();
+  postings.forEach((list, trigram) => trigrams.set(trigram, Uint32Array.from(list)));
+
+  // An entry is a folder if the index says so, or if other entries live inside it
+  const totals = countDescendants(paths);
+  const kinds = new Uint8Array(names.length);
+  const descendants = new Uint32Array(names.length);
+  for (let i = 0; i < names.length; i++) {
+    const count = totals.get(paths[i]);
+    const isFolder = explicitKinds[i] ? explicitKinds[i] === "folder" : count !== undefined;
+    kinds[i] = isFolder ? FOLDER : FILE;
+    descendants[i] = isFolder ? count ?? 0 : 0;
+  }
+
+  return {
+    sourceMtimeMs: stats.mtimeMs,
+    sourceSize: stats.size,
+    generatedAt: generatedAt ?? null,
+    names,
+    paths,
+    kinds,
+    descendants,
+    trigrams,
+  };
+}
+
+/**
+ * Serializes a cache to disk
+ *
+ * Layout: magic, header length, JSON header, string table length,
+ * NUL-separated names and paths, padding to 4 bytes, every posting list as
+ * little-endian uint32 in header order, each entry's descendant count as
+ * uint32, then one kind byte per entry.
+ */
+export function writeSearchCache(cachePath: string, cache: SearchCache): void {
+  const trigramKeys = Array.from(cache.trigrams.keys());
+  const header: CacheHeader = {
+    version: CACHE_VERSION,
+    sourceMtimeMs: cache.sourceMtimeMs,
+    sourceSize: cache.sourceSize,
+    generatedAt: cache.generatedAt,
+    entryCount: cache.names.length,
+    trigrams: trigramKeys,
+    postingCounts: trigramKeys.map((key) => cache.trigrams.get(key)!.length),
+  };
+
+  const headerBytes = Buffer.from(JSON.stringify(header), "utf8");
+  const stringParts: string[] = [];
+  for (let i = 0; i < cache.names.length; i++) {
+    stringParts.push(cache.names[i], cache.paths[i]);
+  }
+  const stringBytes = Buffer.from(stringParts.join("\0"), "utf8");
+
+  const prefixLength = 4 + 4 + headerBytes.length + 4 + stringBytes.length;
+  const padding = (4 - (prefixLength % 4)) % 4;
+  const totalPostings = header.postingCounts.reduce((sum, count) => sum + count, 0);
+  const postingBytes = Buffer.alloc(totalPostings * 4);
+
+  let postingOffset = 0;
+  for (const key of trigramKeys) {
+    for (const id of cache.trigrams.get(key)!) {
+      postingBytes.writeUInt32LE(id, postingOffset);
+      postingOffset += 4;
+    }
+  }
+
+  const descendantBytes = Buffer.alloc(cache.descendants.length * 4);
+  cache.descendants.forEach((count, i) => descendantBytes.writeUInt32LE(count, i * 4));
+
+  const lengths = Buffer.alloc(4);
+  const chunks: Buffer[] = [Buffer.from(CACHE_MAGIC, "ascii")];
+  lengths.writeUInt32LE(headerBytes.length, 0);
+  chunks.push(Buffer.from(lengths), headerBytes);
+  lengths.writeUInt32LE(stringBytes.length, 0);
+  chunks.push(Buffer.from(lengths), stringBytes, Buffer.alloc(padding), postingBytes);
+  chunks.push(descendantBytes, Buffer.from(cache.kinds));
+
+  // Write to a temp file and rename so readers never see a partial cache
+  const tempPath = `${cachePath}.tmp`;
+  writeFileSync(tempPath, Buffer.concat(chunks));
+  renameSync(tempPath, cachePath);
+}
+
+/**
+ * Reads a cache from disk, returning null if it is missing or from another format version
+ */
+export function readSearchCache(cachePath: string): SearchCache | null {
+  if (!existsSync(cachePath)) {
+    return null;
+  }
+
+  const buffer = readFileSync(cachePath);
+  if (buffer.toString("ascii", 0, 4) !== CACHE_MAGIC) {
+    return null;
+  }
+
+  let offset = 4;
+  const headerLength = buffer.readUInt32LE(offset);
+  offset += 4;
+  const header = JSON.parse(buffer.toString("utf8", offset, offset + headerLength)) as CacheHeader;
+  offset += headerLength;
+
+  if (header.version !== CACHE_VERSION) {
+    return null;
+  }
+
+  const stringLength = buffer.readUInt32LE(offset);
+  offset += 4;
+  const strings = header.entryCount > 0 ? buffer.toString("utf8", offset, offset + stringLength).split("\0") : [];
+  offset += stringLength;
+  offset += (4 - (offset % 4)) % 4;
+
+  const names: string[] = [];
+  const paths: string[] = [];
+  for (let i = 0; i < header.entryCount; i++) {
+    names.push(strings[i * 2]);
+    paths.push(strings[i * 2 + 1]);
+  }
+
+  const trigrams = new Map<string, Uint32Array>();
+  header.trigrams.forEach((key, i) => {
+    const count = header.postingCounts[i];
+    const list = new Uint32Array(count);
+    for (let j = 0; j < count; j++) {
+      list[j] = buffer.readUInt32LE(offset + j * 4);
+    }
+    offset += count * 4;
+    trigrams.set(key, list);
+  });
+
+  const descendants = new Uint32Array(header.entryCount);
+  for (let i = 0; i < header.entryCount; i++) {
+    descendants[i] = buffer.readUInt32LE(offset + i * 4);
+  }
+  offset += header.entryCount * 4;
+  const kinds = Uint8Array.from(buffer.subarray(offset, offset + header.entryCount));
+
+  return {
+    sourceMtimeMs: header.sourceMtimeMs,
+    sourceSize: header.sourceSize,
+    generatedAt: header.generatedAt,
+    names,
+    paths,
+    kinds,
+    descendants,
+    trigrams,
+  };
+}
+
+/**
+ * Returns an up-to-date search cache for an index file
+ *
+ * The cache is reused while the source file's mtime and size are unchanged.
+ * If only the mtime moved (e.g. the file was copied or touched) but generatedAt
+ * is the same, the cache is kept and re-stamped instead of rebuilt.
+ * Sources without a cache directory keep their caches in memory only.
+ */
+export async function getSearchCache(source: DriveBuddyDataSource, indexFile: string): Promise<SearchCache> {
+  const stats = source.statIndexFile(indexFile);
+  if (!stats) {
+    throw new Error(`Index file not found: ${indexFile}`);
+  }
+
+  const memoryKey = `${source.id}/${indexFile}`;
+  const cachePath = source.cacheDir ? getCachePath(source.cacheDir, indexFile) : null;
+
+  const isFresh = (cache: SearchCache) => cache.sourceMtimeMs === stats.mtimeMs && cache.sourceSize === stats.size;
+
+  const inMemory = memoryCache.get(memoryKey);
+  if (inMemory && isFresh(inMemory)) {
+    return inMemory;
+  }
+
+  let cache: SearchCache | null = null;
+  try {
+    cache = inMemory ?? (cachePath ? readSearchCache(cachePath) : null);
+  } catch (error) {
+    console.error(`Failed to read search cache for ${indexFile}:`, error);
+  }
+
+  if (cache && !isFresh(cache)) {
+    const generatedAt = cache.generatedAt !== null ? readGeneratedAt(source, indexFile) : undefined;
+    if (generatedAt !== undefined && generatedAt === cache.generatedAt && cache.sourceSize === stats.size) {
+      cache = { ...cache, sourceMtimeMs: stats.mtimeMs };
+      persistSearchCache(source.cacheDir, cachePath, cache);
+    } else {
+      // Keep the previous scan's contents for index history before they're replaced
+      void snapshotSearchCache(source, indexFile, cache);
+      cache = null;
+    }
+  }
+
+  if (!cache) {
+    cache = await buildSearchCache(source, indexFile);
+    persistSearchCache(source.cacheDir, cachePath, cache);
+    void snapshotSearchCache(source, indexFile, cache);
+  }
+
+  memoryCache.set(memoryKey, cache);
+  return cache;
+}
+
+/**
+ * Records the cache's paths as the index history snapshot for its scan
+ * Searches don't wait for this; Index History does. Never rejects, since
+ * searches leave it running unawaited, even inside search workers.
+ */
+export async function snapshotSearchCache(
+  source: DriveBuddyDataSource,
+  indexFile: string,
+  cache: SearchCache
+): Promise<void> {
+  if (cache.generatedAt === null) {
+    return;
+  }
+
+  try {
+    await recordSnapshot(source, decodeVolumeUUID(indexFile), cache.generatedAt, cache.paths);
+  } catch (error) {
+    console.error(`Failed to record index snapshot for ${indexFile}:`, error);
+  }
+}
+
+function persistSearchCache(cacheDir: string | null, cachePath: string | null, cache: SearchCache): void {
+  if (!cacheDir || !cachePath) {
+    return;
+  }
+
+  try {
+    if (!existsSync(cacheDir)) {
+      mkdirSync(cacheDir, { recursive: true });
+    }
+    writeSearchCache(cachePath, cache);
+  } catch (error) {
+    // The in-memory cache still works; it will just be rebuilt next launch
+    console.error("Failed to write search cache:", error);
+  }
+}
+
+/**
+ * Unique parent folders of a cache's entries, for matching query terms against folder names
+ */
+interface DirectoryTable {
+  // Normalized folder paths, segments still separated by "/"
+  dirs: string[];
+  // Folder id of each entry
+  entryDirs: Uint32Array;
+}
+
+// Built on first use by a multi-word query; far fewer folders than entries, so scanning them is cheap
+const directoryTables = new WeakMap<SearchCache, DirectoryTable>();
+
+function getDirectoryTable(cache: SearchCache): DirectoryTable {
+  let table = directoryTables.get(cache);
+  if (table) {
+    return table;
+  }
+
+  const ids = new Map<string, number>();
+  const dirs: string[] = [];
+  const entryDirs = new Uint32Array(cache.paths.length);
+
+  for (let i = 0; i < cache.paths.length; i++) {
+    const path = cache.paths[i];
+    const dir = path.slice(0, Math.max(0, path.lastIndexOf("/")));
+    let id = ids.get(dir);
+    if (id === undefined) {
+      id = dirs.length;
+      ids.set(dir, id);
+      dirs.push(dir.split("/").map(normalizeText).join("/"));
+    }
+    entryDirs[i] = id;
+  }
+
+  table = { dirs, entryDirs };
+  directoryTables.set(cache, table);
+  return table;
+}
+
+/**
+ * Loose test for whether a term could fuzzy-match somewhere in text: a substring,
+ * or at least half of the term's trigrams present
+ */
+function mayContain(text: string, term: string): boolean {
+  const trigrams = getTrigrams(term);
+  if (trigrams.length === 0) {
+    return text.includes(term);
+  }
+
+  const required = Math.ceil(trigrams.length / 2);
+  let found = 0;
+  for (const trigram of trigrams) {
+    if (text.includes(trigram) && ++found >= required) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Returns ids of entries worth scoring for a query
+ *
+ * Queries shorter than a trigram fall back to a scan of the normalized names
+ * and initials. Otherwise an entry is a candidate when it shares at least half
+ * of the query's trigrams, which keeps typo-tolerant matches while skipping
+ * the bulk of unrelated entries.
+ *
+ * Multi-word queries also match entries whose words are spread across the
+ * path: each word must then be found in the filename or a parent folder.
+ */
+export function queryCandidates(cache: SearchCache, query: string): number[] {
+  const normalizedQuery = normalizeText(query);
+  const nameCandidates = queryNameCandidates(cache, normalizedQuery);
+
+  const terms = normalizedQuery.split(" ").filter((term) => term.length > 0);
+  if (terms.length < 2) {
+    return nameCandidates;
+  }
+
+  const { dirs, entryDirs } = getDirectoryTable(cache);
+  const termMatches = terms.map((term) => {
+    const inDir = new Uint8Array(dirs.length);
+    dirs.forEach((dir, id) => {
+      inDir[id] = mayContain(dir, term) ? 1 : 0;
+    });
+    const inName = new Uint8Array(cache.names.length);
+    queryNameCandidates(cache, term).forEach((id) => (inName[id] = 1));
+    return { inDir, inName };
+  });
+
+  const candidates = new Set(nameCandidates);
+  for (let i = 0; i < entryDirs.length; i++) {
+    const dir = entryDirs[i];
+    if (termMatches.every(({ inDir, inName }) => inDir[dir] === 1 || inName[i] === 1)) {
+      candidates.add(i);
+    }
+  }
+
+  return Array.from(candidates).sort((a, b) => a - b);
+}
+
+/**
+ * Ids of entries whose filename may match already-normalized query text
+ */
+function queryNameCandidates(cache: SearchCache, normalizedQuery: string): number[] {
+  const queryTrigrams = getTrigrams(normalizedQuery);
+
+  if (queryTrigrams.length === 0) {
+    const candidates: number[] = [];
+    for (let i = 0; i < cache.names.length; i++) {
+      const name = cache.names[i];
+      if (normalizeText(name).includes(normalizedQuery) || getInitials(name).startsWith(normalizedQuery)) {
+        candidates.push(i);
+      }
+    }
+    return candidates;
+  }
+
+  const required = Math.max(1, Math.ceil(queryTrigrams.length / 2));
+  const counts = new Uint16Array(cache.names.length);
+  const candidates: number[] = [];
+
+  for (const trigram of queryTrigrams) {
+    const list = cache.trigrams.get(trigram);
+    if (!list) continue;
+    for (let i = 0; i < list.length; i++) {
+      const id = list[i];
+      counts[id]++;
+      if (counts[id] === required) {
+        candidates.push(id);
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => a - b);
+}
@@ -0,0 +1,239 @@
+import { existsSync } from "fs";
+import { cpus } from "os";
+import { join } from "path";
+import { Worker } from "worker_threads";
+import type { SearchResult, SearchScope } from "./drivebuddy";
+import type { FileCategory } from "./categories";
+import type { FrecencyBoosts } from "./frecency";
+import type { EntryTags } from "./favorites";
+
+/**
+ * One index file to scan for one query
+ * Plain data so it can be posted to a worker thread
+ */
+export interface SearchJob {
+  indexDir: string | null;
+  indexFile: string;
+  cacheDir: string | null;
+  historyDir: string | null;
+  snapshotRetention: number | null;
+  query: string;
+  maxResults: number;
+  driveUUID: string;
+  driveName: string;
+  scope?: SearchScope;
+  category?: FileCategory;
+  frecencyBoosts?: FrecencyBoosts;
+  tags?: EntryTags;
+}
+
+export type SearchJobRunner = (job: SearchJob, signal?: AbortSignal) => Promise<SearchResult[]>;
+
+export type SearchWorkerRequest = { type: "search"; id: number; job: SearchJob } | { type: "cancel"; id: number };
+
+export type SearchWorkerResponse = { id: number; results: SearchResult[] } | { id: number; error: string };
+
+interface PendingJob {
+  workerIndex: number;
+  resolve: (results: SearchResult[]) => void;
+  reject: (error: Error) => void;
+}
+
+const MAX_WORKERS = 4;
+
+// Concurrency used when index files are scanned on the main thread
+const IN_PROCESS_CONCURRENCY = 2;
+
+/**
+ * Long-lived pool of search workers
+ *
+ * Each index file is always sent to the same worker, so that worker's
+ * in-memory search cache for the file stays warm between keystrokes.
+ */
+class SearchWorkerPool {
+  private readonly workers: Worker[] = [];
+  private readonly pending = new Map<number, PendingJob>();
+  private readonly activeJobs: number[] = [];
+  private nextId = 1;
+  broken = false;
+
+  constructor(scriptPath: string, size: number) {
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(scriptPath);
+      worker.on("message", (response: SearchWorkerResponse) => this.handleResponse(response));
+      worker.on("error", (error) => this.handleFailure(i, error));
+      worker.on("exit", (code) => this.handleFailure(i, new Error(`Search worker exited with code ${code}`)));
+      // Idle workers must not keep the process alive
+      worker.unref();
+      this.workers.push(worker);
+      this.activeJobs.push(0);
+    }
+  }
+
+  run(job: SearchJob, signal?: AbortSignal): Promise<SearchResult[]> {
+    const id = this.nextId++;
+    const workerIndex = hashString(job.indexFile) % this.workers.length;
+    const worker = this.workers[workerIndex];
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        // Drop the job now; the worker's late answer is ignored
+        if (this.pending.delete(id)) {
+          this.release(workerIndex);
+        }
+        worker.postMessage({ type: "cancel", id } satisfies SearchWorkerRequest);
+        reject(signal!.reason);
+      };
+
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.retain(workerIndex);
+      this.pending.set(id, {
+        workerIndex,
+        resolve: (results) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(results);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      });
+      worker.postMessage({ type: "search", id, job } satisfies SearchWorkerRequest);
+    });
+  }
+
+  // A worker with jobs in flight keeps the process alive until they answer
+  private retain(workerIndex: number): void {
+    if (this.activeJobs[workerIndex]++ === 0) {
+      this.workers[workerIndex].ref();
+    }
+  }
+
+  private release(workerIndex: number): void {
+    if (--this.activeJobs[workerIndex] === 0) {
+      this.workers[workerIndex].unref();
+    }
+  }
+
+  private handleResponse(response: SearchWorkerResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+
+    this.pending.delete(response.id);
+    this.release(pending.workerIndex);
+    if ("error" in response) {
+      pending.reject(new Error(response.error));
+    } else {
+      pending.resolve(response.results);
+    }
+  }
+
+  private handleFailure(workerIndex: number, error: Error): void {
+    this.broken = true;
+    this.pending.forEach((pending, id) => {
+      if (pending.workerIndex === workerIndex) {
+        this.pending.delete(id);
+        this.release(workerIndex);
+        pending.reject(error);
+      }
+    });
+  }
+}
+
+let pool: SearchWorkerPool | null | undefined;
+
+// The worker script next to this module when compiled with tsc (the CLI), or
+// the standalone bundle that "npm run build:worker" puts in the extension's assets
+const WORKER_SCRIPT_PATHS = [join(__dirname, "searchWorker.js"), join(__dirname, "assets", "searchWorker.js")];
+
+/**
+ * Lazily starts the worker pool
+ * Returns null when no worker script is found or threads can't be started, so
+ * callers scan in-process
+ */
+function getPool(): SearchWorkerPool | null {
+  if (pool && pool.broken) {
+    pool = null;
+  }
+  if (pool !== undefined) {
+    return pool;
+  }
+
+  const scriptPath = WORKER_SCRIPT_PATHS.find((path) => existsSync(path));
+  const size = Math.max(1, Math.min(cpus().length - 1, MAX_WORKERS));
+
+  try {
+    pool = scriptPath ? new SearchWorkerPool(scriptPath, size) : null;
+  } catch (error) {
+    console.error("Failed to start search workers:", error);
+    pool = null;
+  }
+
+  return pool;
+}
+
+/**
+ * Runs search jobs concurrently, on worker threads when available
+ *
+ * onJobComplete is called as each job finishes, in completion order.
+ * Rejects with the signal's reason as soon as the signal aborts.
+ */
+export async function runSearchJobs(
+  jobs: SearchJob[],
+  runInProcess: SearchJobRunner,
+  options: {
+    signal?: AbortSignal;
+    useWorkers?: boolean;
+    onJobComplete?: (job: SearchJob, results: SearchResult[]) => void;
+  } = {}
+): Promise<void> {
+  const { signal, useWorkers = true, onJobComplete } = options;
+  signal?.throwIfAborted();
+
+  const workerPool = useWorkers ? getPool() : null;
+
+  const runJob = async (job: SearchJob): Promise<void> => {
+    let results: SearchResult[];
+    if (workerPool && !workerPool.broken) {
+      try {
+        results = await workerPool.run(job, signal);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error(`Search worker failed for ${job.indexFile}, retrying in-process:`, error);
+        results = await runInProcess(job, signal);
+      }
+    } else {
+      results = await runInProcess(job, signal);
+    }
+
+    signal?.throwIfAborted();
+    onJobComplete?.(job, results);
+  };
+
+  if (workerPool) {
+    await Promise.all(jobs.map(runJob));
+    return;
+  }
+
+  // Without workers, interleave a few files at a time on the main thread
+  const queue = [...jobs];
+  const lanes = Array.from({ length: Math.min(IN_PROCESS_CONCURRENCY, queue.length) }, async () => {
+    while (queue.length > 0) {
+      await runJob(queue.shift()!);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+function hashString(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
@@ -0,0 +1,31 @@
+import { parentPort } from "worker_threads";
+import { runSearchJob } from "./drivebuddy";
+import type { SearchWorkerRequest, SearchWorkerResponse } from "./searchPool";
+
+/**
+ * Worker thread entry point: scans one index file per "search" message
+ */
+
+const controllers = new Map<number, AbortController>();
+
+parentPort?.on("message", async (request: SearchWorkerRequest) => {
+  if (request.type === "cancel") {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(request.id, controller);
+
+  let response: SearchWorkerResponse;
+  try {
+    const results = await runSearchJob(request.job, controller.signal);
+    response = { id: request.id, results };
+  } catch (error) {
+    response = { id: request.id, error: String(error) };
+  } finally {
+    controllers.delete(request.id);
+  }
+
+  parentPort?.postMessage(response);
+});
@@ -0,0 +1,199 @@
+import React from "react";
+import { homedir } from "os";
+import { join } from "path";
+import { Action, ActionPanel, Form, Icon, showInFinder, showToast, Toast, useNavigation } from "@raycast/api";
+import { SearchResult, getFullPath, isDriveMounted } from "./drivebuddy";
+import { ConflictPolicy, CopyItem, copyToFolder, countCopyOutcomes } from "./copyFiles";
+import { requestRetrieval } from "./retrievalQueue";
+import { formatCount } from "./format";
+
+/**
+ * Key of a result in a selection; results from different searches share it
+ */
+export function getSelectionKey(result: SearchResult): string {
+  return `${result.driveUUID}:${result.entry.relativePath}`;
+}
+
+interface SelectionActionsProps {
+  result: SearchResult;
+  selection: Map<string, SearchResult>;
+  // Results currently listed, for Select All
+  results: SearchResult[];
+  onChange: (selection: Map<string, SearchResult>) => void;
+}
+
+/**
+ * Marking results, including across drives and searches, and batch actions on the marked results
+ * With nothing marked, the batch actions apply to the result itself.
+ */
+export function SelectionActions({ result, selection, results, onChange }: SelectionActionsProps) {
+  const key = getSelectionKey(result);
+  const selected = selection.has(key);
+  const targets = selection.size > 0 ? Array.from(selection.values()) : [result];
+  const count = targets.length === 1 ? "" : ` ${formatCount(targets.length)}`;
+
+  const toggle = () => {
+    const next = new Map(selection);
+    if (selected) {
+      next.delete(key);
+    } else {
+      next.set(key, result);
+    }
+    onChange(next);
+  };
+
+  const selectAll = () => {
+    const next = new Map(selection);
+    results.forEach((r) => next.set(getSelectionKey(r), r));
+    onChange(next);
+  };
+
+  return (
+    <ActionPanel.Section title={selection.size > 0 ? `${formatCount(selection.size)} Selected` : "Selection"}>
+      <Action
+        title={selected ? "Deselect" : "Select"}
+        icon={selected ? Icon.Circle : Icon.CheckCircle}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+        onAction={toggle}
+      />
+      {results.length > 1 && (
+        <Action
+          title="Select All Results"
+          icon={Icon.CheckList}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+          onAction={selectAll}
+        />
+      )}
+      {selection.size > 0 && (
+        <Action.CopyToClipboard
+          title={`Copy${count} Full Paths`}
+          content={targets.map((target) => getFullPath(target.driveUUID, target.entry.relativePath)).join("\n")}
+          shortcut={{ modifiers: ["cmd", "ctrl"], key: "c" }}
+        />
+      )}
+      <Action.Push
+        title={`Copy${count} ${targets.length === 1 ? "Item" : "Items"} to Folder…`}
+        icon={Icon.Download}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+        target={<CopyForm results={targets} onCopied={() => onChange(new Map())} />}
+      />
+      {selection.size > 0 && (
+        <Action
+          title="Clear Selection"
+          icon={Icon.XMarkCircle}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "backspace" }}
+          onAction={() => onChange(new Map())}
+        />
+      )}
+    </ActionPanel.Section>
+  );
+}
+
+interface CopyFormProps {
+  results: SearchResult[];
+  // Called once everything was copied, skipped or requested, to clear the selection
+  onCopied: () => void;
+}
+
+interface CopyValues {
+  folder: string[];
+  conflict: ConflictPolicy;
+  requestOffline: boolean;
+}
+
+/**
+ * Asks where to copy the results and what to do with name conflicts, then copies them with a progress toast
+ */
+function CopyForm({ results, onCopied }: CopyFormProps) {
+  const { pop } = useNavigation();
+  const offline = results.filter((result) => !isDriveMounted(result.driveUUID));
+  const driveCount = new Set(results.map((result) => result.driveUUID)).size;
+
+  const handleSubmit = async (values: CopyValues) => {
+    const destination = values.folder[0] ?? join(homedir(), "Downloads");
+    const items: CopyItem[] = results.map((result) => ({
+      driveUUID: result.driveUUID,
+      driveName: result.driveName,
+      relativePath: result.entry.relativePath,
+      kind: result.kind,
+    }));
+
+    pop();
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Copying…" });
+    try {
+      const outcomes = await copyToFolder(items, destination, {
+        conflict: values.conflict,
+        onProgress: (finished, total, item) => {
+          toast.message = `${finished + 1} of ${total}: ${item.relativePath.split("/").pop()}`;
+        },
+      });
+
+      if (values.requestOffline) {
+        outcomes
+          .filter((outcome) => outcome.status === "offline")
+          .forEach(({ item }) => requestRetrieval(item.driveUUID, item.driveName, item.relativePath, item.kind));
+      }
+
+      const counts = countCopyOutcomes(outcomes);
+      const notes = [
+        counts.skipped > 0 && `${formatCount(counts.skipped)} skipped`,
+        counts.offline > 0 && `${formatCount(counts.offline)} offline${values.requestOffline ? ", requested" : ""}`,
+        counts.failed > 0 && `${formatCount(counts.failed)} failed`,
+      ].filter(Boolean);
+
+      toast.style = counts.failed > 0 && counts.copied === 0 ? Toast.Style.Failure : Toast.Style.Success;
+      toast.title = `Copied ${formatCount(counts.copied)} of ${formatCount(outcomes.length)}`;
+      toast.message = notes.length > 0 ? notes.join(", ") : destination;
+      toast.primaryAction = { title: "Show in Finder", onAction: () => showInFinder(destination) };
+      if (counts.failed === 0) {
+        onCopied();
+      }
+    } catch (error) {
+      console.error("Failed to copy items:", error);
+      toast.style = Toast.Style.Failure;
+      toast.title = "Copy Failed";
+      toast.message = String(error);
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={`Copy ${formatCount(results.length)} ${results.length === 1 ? "Item" : "Items"}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Copy" icon={Icon.Download} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        text={
+          `${formatCount(results.length)} ${results.length === 1 ? "item" : "items"} from ` +
+          `${driveCount} ${driveCount === 1 ? "drive" : "drives"}` +
+          (offline.length > 0 ? `; ${formatCount(offline.length)} on drives that are offline` : "")
+        }
+      />
+      <Form.FilePicker
+        id="folder"
+        title="Copy To"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        defaultValue={[join(homedir(), "Downloads")]}
+        storeValue
+      />
+      <Form.Dropdown id="conflict" title="If Name Exists" storeValue>
+        <Form.Dropdown.Item value="rename" title="Keep Both" />
+        <Form.Dropdown.Item value="skip" title="Skip" />
+        <Form.Dropdown.Item value="overwrite" title="Replace" />
+      </Form.Dropdown>
+      {offline.length > 0 && (
+        <Form.Checkbox
+          id="requestOffline"
+          label="Request offline items when their drive connects"
+          defaultValue={true}
+          storeValue
+        />
+      )}
+    </Form>
+  );
+}
@@ -0,0 +1,228 @@
+import {
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+} from "fs";
+import { join } from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { createGzip, gunzipSync } from "zlib";
+import type { DriveBuddyDataSource } from "./dataSource";
+
+/**
+ * The set of relative paths in a drive's index as of one DriveBuddy scan
+ */
+export interface IndexSnapshot {
+  driveUUID: string;
+  // The index's generatedAt (CFAbsoluteTime), which identifies the scan
+  generatedAt: number;
+  // When the snapshot was taken (Unix milliseconds)
+  capturedAt: number;
+  // Sorted relative paths
+  paths: string[];
+}
+
+export interface SnapshotInfo {
+  driveUUID: string;
+  generatedAt: number;
+  capturedAt: number;
+}
+
+const SNAPSHOT_SUFFIX = ".json.gz";
+
+export const DEFAULT_SNAPSHOT_RETENTION = 10;
+
+// Paths are written in batches so a large snapshot doesn't block the event loop while it is compressed
+const PATHS_PER_CHUNK = 5000;
+
+// Snapshot files being written, so a scan is never written twice at once
+const pendingWrites = new Set<string>();
+
+// Snapshots of sources without a history directory, keyed by source id then drive
+const memorySnapshots = new Map<string, Map<string, IndexSnapshot[]>>();
+
+function getDriveDir(historyDir: string, driveUUID: string): string {
+  return join(historyDir, driveUUID);
+}
+
+function getSnapshotPath(historyDir: string, driveUUID: string, generatedAt: number): string {
+  return join(getDriveDir(historyDir, driveUUID), `${generatedAt}${SNAPSHOT_SUFFIX}`);
+}
+
+function getMemorySnapshots(source: DriveBuddyDataSource, driveUUID: string): IndexSnapshot[] {
+  let drives = memorySnapshots.get(source.id);
+  if (!drives) {
+    drives = new Map();
+    memorySnapshots.set(source.id, drives);
+  }
+  let snapshots = drives.get(driveUUID);
+  if (!snapshots) {
+    snapshots = [];
+    drives.set(driveUUID, snapshots);
+  }
+  return snapshots;
+}
+
+/**
+ * The snapshot as JSON text, produced in chunks
+ */
+function* serializeSnapshot(snapshot: IndexSnapshot): Generator<string> {
+  const { paths, ...header } = snapshot;
+  yield `${JSON.stringify(header).slice(0, -1)},"paths":[`;
+  for (let i = 0; i < paths.length; i += PATHS_PER_CHUNK) {
+    const chunk = paths.slice(i, i + PATHS_PER_CHUNK).map((path) => JSON.stringify(path));
+    yield (i > 0 ? "," : "") + chunk.join(",");
+  }
+  yield "]}";
+}
+
+/**
+ * Saves the paths of a scan unless a snapshot of it already exists, then
+ * deletes the drive's snapshots beyond the source's retention limit, if it has one
+ *
+ * Snapshots are gzipped JSON of the sorted paths, which compresses well
+ * because neighbouring paths share long prefixes. Never rejects: history is
+ * best-effort and searching must not fail because of it.
+ */
+export async function recordSnapshot(
+  source: DriveBuddyDataSource,
+  driveUUID: string,
+  generatedAt: number,
+  paths: string[]
+): Promise<void> {
+  if (!source.historyDir) {
+    const snapshots = getMemorySnapshots(source, driveUUID);
+    if (!snapshots.some((snapshot) => snapshot.generatedAt === generatedAt)) {
+      snapshots.push({ driveUUID, generatedAt, capturedAt: Date.now(), paths: [...paths].sort() });
+      pruneRecordedSnapshots(source, driveUUID);
+    }
+    return;
+  }
+
+  const snapshotPath = getSnapshotPath(source.historyDir, driveUUID, generatedAt);
+  if (existsSync(snapshotPath) || pendingWrites.has(snapshotPath)) {
+    return;
+  }
+
+  pendingWrites.add(snapshotPath);
+  const tempPath = `${snapshotPath}.tmp`;
+  try {
+    mkdirSync(getDriveDir(source.historyDir, driveUUID), { recursive: true });
+    const snapshot: IndexSnapshot = { driveUUID, generatedAt, capturedAt: Date.now(), paths: [...paths].sort() };
+
+    // Write to a temp file and rename so readers never see a partial snapshot
+    await pipeline(Readable.from(serializeSnapshot(snapshot)), createGzip(), createWriteStream(tempPath));
+    renameSync(tempPath, snapshotPath);
+    pruneRecordedSnapshots(source, driveUUID);
+  } catch (error) {
+    console.error(`Failed to save index snapshot for ${driveUUID}:`, error);
+  } finally {
+    pendingWrites.delete(snapshotPath);
+  }
+}
+
+/**
+ * Lists a drive's snapshots, newest scan first
+ */
+export function listSnapshots(source: DriveBuddyDataSource, driveUUID: string): SnapshotInfo[] {
+  if (!source.historyDir) {
+    return getMemorySnapshots(source, driveUUID)
+      .map(({ generatedAt, capturedAt }) => ({ driveUUID, generatedAt, capturedAt }))
+      .sort((a, b) => b.generatedAt - a.generatedAt);
+  }
+
+  const driveDir = getDriveDir(source.historyDir, driveUUID);
+  if (!existsSync(driveDir)) {
+    return [];
+  }
+
+  return readdirSync(driveDir)
+    .filter((file) => file.endsWith(SNAPSHOT_SUFFIX))
+    .map((file) => ({
+      driveUUID,
+      generatedAt: parseFloat(file.slice(0, -SNAPSHOT_SUFFIX.length)),
+      capturedAt: statSync(join(driveDir, file)).mtimeMs,
+    }))
+    .filter((info) => Number.isFinite(info.generatedAt))
+    .sort((a, b) => b.generatedAt - a.generatedAt);
+}
+
+/**
+ * Lists the drives that have at least one snapshot
+ */
+export function listSnapshotDrives(source: DriveBuddyDataSource): string[] {
+  if (!source.historyDir) {
+    const drives = memorySnapshots.get(source.id);
+    return drives ? Array.from(drives.keys()).filter((uuid) => drives.get(uuid)!.length > 0) : [];
+  }
+  if (!existsSync(source.historyDir)) {
+    return [];
+  }
+  return readdirSync(source.historyDir).filter((uuid) => listSnapshots(source, uuid).length > 0);
+}
+
+/**
+ * Loads one snapshot, or null if it doesn't exist or can't be read
+ */
+export function loadSnapshot(
+  source: DriveBuddyDataSource,
+  driveUUID: string,
+  generatedAt: number
+): IndexSnapshot | null {
+  if (!source.historyDir) {
+    return getMemorySnapshots(source, driveUUID).find((snapshot) => snapshot.generatedAt === generatedAt) ?? null;
+  }
+
+  try {
+    const content = gunzipSync(readFileSync(getSnapshotPath(source.historyDir, driveUUID, generatedAt)));
+    return JSON.parse(content.toString("utf8")) as IndexSnapshot;
+  } catch (error) {
+    console.error(`Failed to read index snapshot ${driveUUID}@${generatedAt}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Deletes all but the newest `keep` snapshots of every drive
+ */
+export function pruneSnapshots(
+  source: DriveBuddyDataSource,
+  keep: number = source.snapshotRetention ?? DEFAULT_SNAPSHOT_RETENTION
+): void {
+  for (const driveUUID of listSnapshotDrives(source)) {
+    pruneDriveSnapshots(source, driveUUID, keep);
+  }
+}
+
+function pruneRecordedSnapshots(source: DriveBuddyDataSource, driveUUID: string): void {
+  if (source.snapshotRetention !== null) {
+    pruneDriveSnapshots(source, driveUUID, source.snapshotRetention);
+  }
+}
+
+function pruneDriveSnapshots(source: DriveBuddyDataSource, driveUUID: string, keep: number): void {
+  // A bad retention value must never be read as "keep none"
+  if (!Number.isFinite(keep)) {
+    return;
+  }
+  const limit = Math.max(1, Math.floor(keep));
+
+  if (!source.historyDir) {
+    const snapshots = getMemorySnapshots(source, driveUUID);
+    snapshots.sort((a, b) => b.generatedAt - a.generatedAt).splice(limit);
+    return;
+  }
+
+  for (const { generatedAt } of listSnapshots(source, driveUUID).slice(limit)) {
+    try {
+      unlinkSync(getSnapshotPath(source.historyDir, driveUUID, generatedAt));
+    } catch (error) {
+      console.error(`Failed to delete index snapshot ${driveUUID}@${generatedAt}:`, error);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Keeps the best K items seen so far using a bounded binary heap
+ *
+ * `compare` follows Array.prototype.sort semantics: a negative result means
+ * `a` ranks ahead of `b`. The heap root is always the weakest kept item, so
+ * each push is O(log K) and items that can't make the cut are rejected in O(1).
+ * Throws a RangeError unless the capacity is a positive whole number.
+ */
+export class TopK<T> {
+  private heap: T[] = [];
+
+  constructor(
+    private readonly capacity: number,
+    private readonly compare: (a: T, b: T) => number
+  ) {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new RangeError(`TopK capacity must be a positive whole number, not ${capacity}`);
+    }
+  }
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  get isFull(): boolean {
+    return this.heap.length >= this.capacity;
+  }
+
+  /**
+   * The weakest item currently kept, or undefined if empty
+   */
+  peekWorst(): T | undefined {
+    return this.heap[0];
+  }
+
+  /**
+   * Offers an item, returning true if it was kept
+   */
+  push(item: T): boolean {
+    if (this.heap.length < this.capacity) {
+      this.heap.push(item);
+      this.siftUp(this.heap.length - 1);
+      return true;
+    }
+
+    // Only replace the weakest item if the new one ranks ahead of it
+    if (this.compare(item, this.heap[0]) >= 0) {
+      return false;
+    }
+
+    this.heap[0] = item;
+    this.siftDown(0);
+    return true;
+  }
+
+  /**
+   * Returns the kept items in ranked order without modifying the heap
+   */
+  toSortedArray(): T[] {
+    return [...this.heap].sort(this.compare);
+  }
+
+  // "Worse" items float to the root
+  private isWorse(a: T, b: T): boolean {
+    return this.compare(a, b) > 0;
+  }
+
+  private siftUp(index: number): void {
+    const heap = this.heap;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.isWorse(heap[index], heap[parent])) break;
+      [heap[index], heap[parent]] = [heap[parent], heap[index]];
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const heap = this.heap;
+    const length = heap.length;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let worst = index;
+      if (left < length && this.isWorse(heap[left], heap[worst])) worst = left;
+      if (right < length && this.isWorse(heap[right], heap[worst])) worst = right;
+      if (worst === index) break;
+      [heap[index], heap[worst]] = [heap[worst], heap[index]];
+      index = worst;
+    }
+  }
+}
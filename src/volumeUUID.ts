@@ -0,0 +1,20 @@
+/**
+ * Decodes a Base64-encoded volume UUID from a filename
+ * Example: NkI3NUVEMjItMDMzMi0zQTVDLTgyNTItMTU2ODFGQjAxRTRB.json -> 6B75ED22-0332-3A5C-8252-15681FB01E4A
+ */
+export function decodeVolumeUUID(filename: string): string {
+  try {
+    const base64 = filename.replace(".json", "");
+    const buffer = Buffer.from(base64, "base64");
+    return buffer.toString("ascii");
+  } catch (error) {
+    return filename.replace(".json", "");
+  }
+}
+
+/**
+ * Encodes a volume UUID to Base64 for filename lookup
+ */
+export function encodeVolumeUUID(uuid: string): string {
+  return Buffer.from(uuid, "ascii").toString("base64");
+}
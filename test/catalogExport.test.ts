@@ -0,0 +1,191 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { compareTreePaths, exportDriveCatalog, exportSearchResults } from "../src/catalogExport";
+import { MemoryDataSource } from "../src/dataSource";
+import { SearchResult, encodeVolumeUUID } from "../src/drivebuddy";
+import { StaticMountTableProvider, setMountTableProvider } from "../src/mounts";
+import { fixturePath } from "./fixtures";
+
+const ARCHIVE_UUID = "1A2B3C4D-0000-0000-0000-000000000001";
+const BACKUP_UUID = "1A2B3C4D-0000-0000-0000-000000000002";
+const root = mkdtempSync(join(tmpdir(), "catalog-export-test-"));
+let exportCount = 0;
+
+// No drive is connected, so full paths come from the drives' last known paths
+setMountTableProvider(new StaticMountTableProvider([]));
+
+after(() => rmSync(root, { recursive: true, force: true }));
+
+function createSource() {
+  const paths = ["Projects-old", "Projects", "Projects/b.mov", "Projects/A, B.mov", "Projects/Sub/c.mov", "z.txt"];
+  return new MemoryDataSource({
+    preferences: readFileSync(fixturePath("plist", "DriveBuddy.xml.plist")),
+    indexes: {
+      [`${encodeVolumeUUID(ARCHIVE_UUID)}.json`]: {
+        entries: paths.map((relativePath) => ({ name: relativePath.split("/").pop(), relativePath })),
+      },
+    },
+  });
+}
+
+function result(driveUUID: string, driveName: string, relativePath: string, matchScore: number): SearchResult {
+  const name = relativePath.split("/").pop()!;
+  return { entry: { name, relativePath }, driveUUID, driveName, indexFile: "", matchScore, kind: "file" };
+}
+
+const RESULTS = [
+  result(BACKUP_UUID, "Backup", "Old/say \"hi\".mov", 97.25),
+  result(ARCHIVE_UUID, "Archive 03", "Projects/b.mov", 91.04),
+  result(ARCHIVE_UUID, "Archive 03", "a_b.mov", 88),
+];
+
+async function exportTo(run: (path: string) => Promise<number>): Promise<{ count: number; text: string }> {
+  const path = join(root, `export-${++exportCount}`);
+  const count = await run(path);
+  return { count, text: readFileSync(path, "utf8") };
+}
+
+describe("compareTreePaths", () => {
+  it("puts every folder directly before its contents", () => {
+    const paths = ["Projects-old", "Projects/b", "Projects", "Projects/a/x", "Projects.txt", "A", "Projects/a"];
+    assert.deepEqual(paths.sort(compareTreePaths), [
+      "A",
+      "Projects",
+      "Projects/a",
+      "Projects/a/x",
+      "Projects/b",
+      "Projects-old",
+      "Projects.txt",
+    ]);
+  });
+
+  it("returns 0 only for equal paths", () => {
+    assert.equal(compareTreePaths("a/b", "a/b"), 0);
+    assert.ok(compareTreePaths("a", "a/b") < 0);
+  });
+});
+
+describe("exportSearchResults", () => {
+  it("writes CSV rows in ranking order, quoting fields that need it", async () => {
+    const source = createSource();
+    const { count, text } = await exportTo((path) => exportSearchResults(RESULTS, path, "csv", { source }));
+
+    assert.equal(count, 3);
+    assert.equal(
+      text,
+      [
+        "Drive,Volume UUID,Relative Path,Full Path,Kind,Match Score",
+        `Backup,${BACKUP_UUID},"Old/say ""hi"".mov","/Volumes/Backup/Old/say ""hi"".mov",file,97.3`,
+        `Archive 03,${ARCHIVE_UUID},Projects/b.mov,/Volumes/Archive 03/Projects/b.mov,file,91`,
+        `Archive 03,${ARCHIVE_UUID},a_b.mov,/Volumes/Archive 03/a_b.mov,file,88`,
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("writes a JSON array that parses back to the rows", async () => {
+    const source = createSource();
+    const { text } = await exportTo((path) => exportSearchResults(RESULTS, path, "json", { source }));
+    const rows = JSON.parse(text);
+
+    assert.equal(rows.length, 3);
+    assert.deepEqual(rows[1], {
+      driveName: "Archive 03",
+      driveUUID: ARCHIVE_UUID,
+      relativePath: "Projects/b.mov",
+      fullPath: "/Volumes/Archive 03/Projects/b.mov",
+      kind: "file",
+      matchScore: 91,
+    });
+  });
+
+  it("writes an empty JSON array for no results", async () => {
+    const { count, text } = await exportTo((path) => exportSearchResults([], path, "json", { source: createSource() }));
+    assert.equal(count, 0);
+    assert.deepEqual(JSON.parse(text), []);
+  });
+
+  it("groups the Markdown tree by drive and folder, escaping names", async () => {
+    const source = createSource();
+    const { text } = await exportTo((path) => exportSearchResults(RESULTS, path, "markdown", { source }));
+
+    assert.equal(
+      text,
+      [
+        "# DriveBuddy Search Results",
+        "",
+        "## Archive 03",
+        "",
+        `\`${ARCHIVE_UUID}\``,
+        "",
+        "- **Projects/**",
+        "  - b.mov (91)",
+        "- a\\_b.mov (88)",
+        "",
+        "## Backup",
+        "",
+        `\`${BACKUP_UUID}\``,
+        "",
+        "- **Old/**",
+        '  - say "hi".mov (97.3)',
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("exportDriveCatalog", () => {
+  it("writes every entry with its kind, in index order", async () => {
+    const source = createSource();
+    const { count, text } = await exportTo((path) => exportDriveCatalog(ARCHIVE_UUID, path, "csv", { source }));
+    const lines = text.trimEnd().split("\n");
+
+    assert.equal(count, 6);
+    assert.equal(lines[0], "Drive,Volume UUID,Relative Path,Full Path,Kind,Match Score");
+    assert.equal(lines[2], `Archive 03,${ARCHIVE_UUID},Projects,/Volumes/Archive 03/Projects,folder,`);
+    const quoted = `"Projects/A, B.mov","/Volumes/Archive 03/Projects/A, B.mov"`;
+    assert.equal(lines[4], `Archive 03,${ARCHIVE_UUID},${quoted},file,`);
+  });
+
+  it("writes JSON rows without match scores", async () => {
+    const source = createSource();
+    const { text } = await exportTo((path) => exportDriveCatalog(ARCHIVE_UUID, path, "json", { source }));
+    const rows = JSON.parse(text);
+
+    assert.equal(rows.length, 6);
+    assert.ok(rows.every((row: { matchScore: unknown }) => row.matchScore === null));
+    assert.equal(rows[5].kind, "file");
+  });
+
+  it("nests the Markdown tree under the drive name, folders before their contents", async () => {
+    const source = createSource();
+    const { text } = await exportTo((path) => exportDriveCatalog(ARCHIVE_UUID, path, "markdown", { source }));
+
+    assert.equal(
+      text,
+      [
+        "# Archive 03",
+        "",
+        "## Archive 03",
+        "",
+        `\`${ARCHIVE_UUID}\``,
+        "",
+        "- **Projects/**",
+        "  - A, B.mov",
+        "  - **Sub/**",
+        "    - c.mov",
+        "  - b.mov",
+        "- Projects-old",
+        "- z.txt",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("rejects drives without an index", async () => {
+    await assert.rejects(exportDriveCatalog(BACKUP_UUID, join(root, "none.csv"), "csv", { source: createSource() }));
+  });
+});
@@ -0,0 +1,89 @@
+import { after, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CopyItem, copyToFolder, countCopyOutcomes } from "../src/copyFiles";
+import { MemoryDataSource } from "../src/dataSource";
+import { StaticMountTableProvider, setMountTableProvider } from "../src/mounts";
+
+const root = mkdtempSync(join(tmpdir(), "copy-files-test-"));
+const archive = join(root, "Archive");
+const backup = join(root, "Backup");
+const destination = join(root, "Destination");
+
+mkdirSync(join(archive, "Projects"), { recursive: true });
+mkdirSync(join(backup, "Old"), { recursive: true });
+writeFileSync(join(archive, "Projects", "notes.txt"), "from archive");
+writeFileSync(join(backup, "Old", "notes.txt"), "from backup");
+
+setMountTableProvider(
+  new StaticMountTableProvider([
+    { volumeUUID: "AAAA-1111", mountPoint: archive, name: "Archive" },
+    { volumeUUID: "BBBB-2222", mountPoint: backup, name: "Backup" },
+  ])
+);
+
+after(() => rmSync(root, { recursive: true, force: true }));
+
+const file = (driveUUID: string, driveName: string, relativePath: string): CopyItem => ({
+  driveUUID,
+  driveName,
+  relativePath,
+  kind: "file",
+});
+
+const fromArchive = file("AAAA-1111", "Archive", "Projects/notes.txt");
+const fromBackup = file("BBBB-2222", "Backup", "Old/notes.txt");
+const offline = file("CCCC-3333", "Shelf", "notes.txt");
+
+function read(name: string): string {
+  return readFileSync(join(destination, name), "utf8");
+}
+
+describe("copyToFolder", () => {
+  beforeEach(() => rmSync(destination, { recursive: true, force: true }));
+
+  for (const conflict of ["rename", "skip", "overwrite"] as const) {
+    it(`keeps same-named items from one batch apart when the policy is ${conflict}`, async () => {
+      const outcomes = await copyToFolder([fromArchive, fromBackup], destination, {
+        conflict,
+        source: new MemoryDataSource(),
+      });
+
+      assert.deepEqual(outcomes.map((outcome) => outcome.status), ["copied", "copied"]);
+      assert.deepEqual(readdirSync(destination).sort(), ["notes 2.txt", "notes.txt"]);
+      assert.equal(read("notes.txt"), "from archive");
+      assert.equal(read("notes 2.txt"), "from backup");
+    });
+  }
+
+  it("applies the policy to entries already in the folder", async () => {
+    mkdirSync(destination);
+    writeFileSync(join(destination, "notes.txt"), "existing");
+
+    const skipped = await copyToFolder([fromArchive], destination, {
+      conflict: "skip",
+      source: new MemoryDataSource(),
+    });
+    assert.equal(skipped[0].status, "skipped");
+    assert.equal(read("notes.txt"), "existing");
+
+    await copyToFolder([fromArchive, fromBackup], destination, {
+      conflict: "overwrite",
+      source: new MemoryDataSource(),
+    });
+    assert.equal(read("notes.txt"), "from archive");
+    assert.equal(read("notes 2.txt"), "from backup");
+  });
+
+  it("reports offline drives and missing entries", async () => {
+    const missing = { ...fromArchive, relativePath: "Projects/gone.txt" };
+    const source = new MemoryDataSource();
+    const outcomes = await copyToFolder([offline, missing, fromArchive], destination, { source });
+
+    assert.deepEqual(countCopyOutcomes(outcomes), { copied: 1, skipped: 0, offline: 1, failed: 1 });
+    assert.match(outcomes[1].error!, /Not found on Archive/);
+    assert.equal(JSON.parse(source.readClickHistory()!).files[0].relativePath, "Projects/notes.txt");
+  });
+});
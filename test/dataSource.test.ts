@@ -0,0 +1,132 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { text } from "stream/consumers";
+import {
+  DEFAULT_PREFERENCES_PATH,
+  DEFAULT_SUPPORT_DIR,
+  FileSystemDataSource,
+  MemoryDataSource,
+} from "../src/dataSource";
+import { encodeVolumeUUID, loadDriveInfo } from "../src/drivebuddy";
+import { fixturePath } from "./fixtures";
+
+const DRIVE_UUID = "1A2B3C4D-0000-0000-0000-000000000001";
+const INDEX_FILE = `${encodeVolumeUUID(DRIVE_UUID)}.json`;
+const catalog = fixturePath("catalog");
+const support = mkdtempSync(join(tmpdir(), "data-source-test-"));
+
+after(() => rmSync(support, { recursive: true, force: true }));
+
+describe("FileSystemDataSource", () => {
+  it("keeps the files it writes in the support folder", () => {
+    const source = new FileSystemDataSource({ rootDir: catalog, supportDir: support });
+    assert.equal(source.indexDir, join(catalog, "SearchIndexes"));
+    assert.equal(source.cacheDir, join(support, "SearchCache"));
+    assert.equal(source.historyDir, join(support, "IndexHistory"));
+    assert.equal(source.favoritesPath, join(support, "favorites.json"));
+    assert.equal(source.retrievalQueuePath, join(support, "retrieval-queue.json"));
+    assert.equal(source.clickHistoryPath, join(catalog, "click-history.json"));
+  });
+
+  it("defaults to the extension's Raycast support folder", () => {
+    const source = new FileSystemDataSource({ rootDir: catalog });
+    assert.equal(source.favoritesPath, join(DEFAULT_SUPPORT_DIR, "favorites.json"));
+    assert.equal(source.cacheDir, join(DEFAULT_SUPPORT_DIR, "SearchCache"));
+  });
+
+  it("keeps caches and history in memory when asked to", () => {
+    const source = new FileSystemDataSource({ rootDir: catalog, cacheDir: null, historyDir: null });
+    assert.equal(source.cacheDir, null);
+    assert.equal(source.historyDir, null);
+  });
+
+  it("reads the preferences plist inside a custom folder", () => {
+    assert.equal(new FileSystemDataSource({ rootDir: catalog }).preferencesPath, join(catalog, "UE5.DriveBuddy.plist"));
+    assert.equal(new FileSystemDataSource({ rootDir: support }).preferencesPath, DEFAULT_PREFERENCES_PATH);
+
+    const drives = loadDriveInfo(new FileSystemDataSource({ rootDir: catalog, supportDir: support }));
+    assert.equal(drives.get(DRIVE_UUID)?.name, "Archive 03");
+  });
+
+  it("lists and reads index files", async () => {
+    const source = new FileSystemDataSource({ rootDir: catalog, supportDir: support });
+    const files = source.listIndexFiles();
+    assert.deepEqual(files.map((info) => info.file), [INDEX_FILE]);
+
+    const content = readFileSync(join(catalog, "SearchIndexes", INDEX_FILE));
+    assert.equal(files[0].size, content.length);
+    assert.equal(await text(source.openIndexFile(INDEX_FILE)), content.toString("utf8"));
+    assert.deepEqual(source.readIndexFileRange(INDEX_FILE, 4, 11), content.subarray(4, 15));
+    assert.equal(source.readIndexFileRange(INDEX_FILE, content.length - 2, 100).length, 2);
+  });
+
+  it("reports missing index files and folders", () => {
+    const source = new FileSystemDataSource({ rootDir: support });
+    assert.deepEqual(source.listIndexFiles(), []);
+    assert.equal(source.statIndexFile(INDEX_FILE), null);
+  });
+
+  it("reads click history from the DriveBuddy folder", () => {
+    const source = new FileSystemDataSource({ rootDir: catalog, supportDir: support });
+    assert.equal(JSON.parse(source.readClickHistory()!).files[0].accessCount, 3);
+  });
+
+  it("writes favorites and the retrieval queue to the support folder, creating it", () => {
+    const supportDir = join(support, "nested", "support");
+    const source = new FileSystemDataSource({ rootDir: catalog, supportDir });
+    assert.equal(source.readFavorites(), null);
+    assert.equal(source.readRetrievalQueue(), null);
+
+    source.writeFavorites('{"items":[]}');
+    source.writeRetrievalQueue('{"items":[]}');
+    assert.equal(source.readFavorites(), '{"items":[]}');
+    assert.equal(readFileSync(join(supportDir, "retrieval-queue.json"), "utf8"), '{"items":[]}');
+    assert.equal(existsSync(join(catalog, "favorites.json")), false);
+  });
+});
+
+describe("MemoryDataSource", () => {
+  it("serves indexes given as text or objects", async () => {
+    const source = new MemoryDataSource({
+      indexes: { "a.json": '{"entries":[]}', "b.json": { generatedAt: 1, entries: [] } },
+    });
+    assert.deepEqual(source.listIndexFiles().map((info) => info.file), ["a.json", "b.json"]);
+    assert.equal(await text(source.openIndexFile("b.json")), '{"generatedAt":1,"entries":[]}');
+    assert.equal(source.readIndexFileRange("a.json", 2, 7).toString(), "entries");
+    assert.equal(source.readIndexFileRange("missing.json", 0, 10).length, 0);
+    assert.throws(() => source.openIndexFile("missing.json"));
+  });
+
+  it("changes an index's mtime on every update", () => {
+    const source = new MemoryDataSource({ indexes: { "a.json": "{}" } });
+    const before = source.statIndexFile("a.json")!.mtimeMs;
+    source.setIndex("a.json", "{}");
+    assert.ok(source.statIndexFile("a.json")!.mtimeMs > before);
+
+    source.removeIndex("a.json");
+    assert.equal(source.statIndexFile("a.json"), null);
+  });
+
+  it("reads drives from preferences set later", () => {
+    const source = new MemoryDataSource();
+    assert.equal(source.getPreferencesMtime(), null);
+    assert.equal(loadDriveInfo(source).size, 0);
+
+    source.setPreferences(readFileSync(fixturePath("plist", "DriveBuddy.binary.plist")));
+    assert.equal(loadDriveInfo(source).get(DRIVE_UUID)?.name, "Archive 03");
+  });
+
+  it("keeps writes in memory", () => {
+    const source = new MemoryDataSource({ clickHistory: '{"files":[]}' });
+    assert.equal(source.readClickHistory(), '{"files":[]}');
+    source.writeFavorites("favorites");
+    source.writeRetrievalQueue("queue");
+    assert.equal(source.readFavorites(), "favorites");
+    assert.equal(source.readRetrievalQueue(), "queue");
+    assert.equal(source.cacheDir, null);
+    assert.notEqual(source.id, new MemoryDataSource().id);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryDataSource } from "../src/dataSource";
+import { encodeVolumeUUID } from "../src/drivebuddy";
+import { compareDrives } from "../src/driveCompare";
+
+const PRIMARY_UUID = "AAAA-1111";
+const BACKUP_UUID = "BBBB-2222";
+
+function createSource(primary: string[], backup: string[]) {
+  const index = (paths: string[]) => ({
+    generatedAt: 1,
+    entries: paths.map((relativePath) => ({ name: relativePath.split("/").pop(), relativePath })),
+  });
+  return new MemoryDataSource({
+    indexes: {
+      [`${encodeVolumeUUID(PRIMARY_UUID)}.json`]: index(primary),
+      [`${encodeVolumeUUID(BACKUP_UUID)}.json`]: index(backup),
+    },
+  });
+}
+
+function comparePaths(entries: { comparePath: string }[]) {
+  return entries.map((entry) => entry.comparePath);
+}
+
+describe("compareDrives", () => {
+  it("sorts entries into missing on either drive and present on both", async () => {
+    const source = createSource(
+      ["Projects", "Projects/a.mov", "Projects/b.mov"],
+      ["Projects", "Projects/b.mov", "c.mov"]
+    );
+    const comparison = await compareDrives(PRIMARY_UUID, BACKUP_UUID, { source });
+
+    assert.deepEqual(comparePaths(comparison.missingOnB), ["Projects/a.mov"]);
+    assert.deepEqual(comparePaths(comparison.missingOnA), ["c.mov"]);
+    assert.deepEqual(comparePaths(comparison.onBoth), ["Projects", "Projects/b.mov"]);
+    assert.equal(comparison.onBoth[0].kind, "folder");
+  });
+
+  it("maps a folder of one drive onto a folder of the other", async () => {
+    const source = createSource(
+      ["Projects", "Projects/Acme", "Projects/Acme/cut.mov", "Other/cut.mov"],
+      ["Backups", "Backups/2024", "Backups/2024/Projects", "Backups/2024/Projects/Acme/cut.mov"]
+    );
+    const comparison = await compareDrives(PRIMARY_UUID, BACKUP_UUID, {
+      source,
+      prefixA: "/Projects/",
+      prefixB: " Backups/2024/Projects ",
+    });
+
+    assert.deepEqual(comparePaths(comparison.onBoth), ["Acme/cut.mov"]);
+    assert.deepEqual(comparePaths(comparison.missingOnB), ["Acme"]);
+    assert.deepEqual(comparePaths(comparison.missingOnA), []);
+    assert.equal(comparison.onBoth[0].pathA, "Projects/Acme/cut.mov");
+    assert.equal(comparison.onBoth[0].pathB, "Backups/2024/Projects/Acme/cut.mov");
+  });
+
+  it("matches decomposed and composed names, in paths and prefixes", async () => {
+    const composed = "Café".normalize("NFC");
+    const decomposed = "Café".normalize("NFD");
+    const source = createSource(
+      [`${decomposed}/Résumé.pdf`.normalize("NFD")],
+      [`Backups/${composed}/Résumé.pdf`.normalize("NFC")]
+    );
+    const comparison = await compareDrives(PRIMARY_UUID, BACKUP_UUID, {
+      source,
+      prefixA: composed,
+      prefixB: `Backups/${decomposed}`,
+    });
+
+    assert.deepEqual(comparePaths(comparison.onBoth), ["Résumé.pdf".normalize("NFC")]);
+    assert.equal(comparison.onBoth[0].pathA, `${decomposed}/Résumé.pdf`.normalize("NFD"));
+    assert.deepEqual(comparison.missingOnA, []);
+    assert.deepEqual(comparison.missingOnB, []);
+  });
+
+  it("rejects drives without an index", async () => {
+    await assert.rejects(compareDrives(PRIMARY_UUID, "CCCC-3333", { source: createSource([], []) }), /No index/);
+  });
+});
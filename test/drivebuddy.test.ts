@@ -0,0 +1,124 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import {
+  calculateMatchScore,
+  calculatePathMatchScore,
+  parseDriveLog,
+  readDriveInfoFromPlist,
+} from "../src/drivebuddy";
+import { fixturePath } from "./fixtures";
+
+const ARCHIVE_UUID = "1A2B3C4D-0000-0000-0000-000000000001";
+const BACKUP_UUID = "1A2B3C4D-0000-0000-0000-000000000002";
+
+function readFixture(name: string) {
+  return readDriveInfoFromPlist(readFileSync(fixturePath("plist", name)));
+}
+
+describe("readDriveInfoFromPlist", () => {
+  for (const name of ["DriveBuddy.binary.plist", "DriveBuddy.xml.plist"]) {
+    it(`reads drives from ${name}`, () => {
+      const drives = readFixture(name);
+
+      assert.deepEqual([...drives.keys()].sort(), [ARCHIVE_UUID, BACKUP_UUID]);
+      const archive = drives.get(ARCHIVE_UUID)!;
+      assert.equal(archive.name, "Archive 03");
+      assert.equal(archive.path, "/Volumes/Archive 03");
+      assert.equal(archive.totalSize, 4000000000000);
+      assert.equal(archive.availableSize, 1250000000000);
+      assert.equal(archive.summary, "Café rushes ✓");
+      assert.equal(archive.lastSeen, 750000000.5);
+      assert.equal(archive.lastKnown.fsType, "apfs");
+    });
+  }
+
+  it("reads the same drives from both formats", () => {
+    assert.deepEqual(readFixture("DriveBuddy.binary.plist"), readFixture("DriveBuddy.xml.plist"));
+  });
+
+  it("drops fields of the wrong type", () => {
+    const backup = readFixture("DriveBuddy.xml.plist").get(BACKUP_UUID)!;
+    assert.equal(backup.name, "Backup");
+    assert.equal(backup.totalSize, undefined);
+    assert.equal(backup.summary, undefined);
+    assert.equal(backup.lastSeen, undefined);
+  });
+
+  it("returns no drives without a drive log", () => {
+    assert.equal(readFixture("NoDriveLog.xml.plist").size, 0);
+  });
+
+  it("returns no drives when the drive log is not an object", () => {
+    assert.equal(readFixture("ArrayDriveLog.binary.plist").size, 0);
+  });
+});
+
+describe("parseDriveLog", () => {
+  it("skips entries without a last known name and path", () => {
+    const drives = parseDriveLog({
+      a: { lastKnown: { name: "A", path: "/Volumes/A" } },
+      b: { lastKnown: { name: "B" } },
+      c: { lastKnown: null },
+      d: [],
+      e: null,
+    });
+    assert.deepEqual([...drives.keys()], ["a"]);
+  });
+});
+
+describe("calculateMatchScore", () => {
+  it("scores exact and substring matches from 90 to 100", () => {
+    assert.equal(calculateMatchScore("clip 001.mov", "Clip_001.MOV"), 100);
+    const short = calculateMatchScore("test", "test.txt");
+    const long = calculateMatchScore("test", "my_test_file_document.txt");
+    assert.ok(short > long && long >= 90, `${short} ${long}`);
+  });
+
+  it("tolerates typos but rejects unrelated names", () => {
+    assert.ok(calculateMatchScore("clpi001", "clip001") > 60);
+    assert.ok(calculateMatchScore("test", "trash") <= 60);
+    assert.equal(calculateMatchScore(" ", "clip001"), 0);
+  });
+});
+
+describe("calculatePathMatchScore", () => {
+  const path = "Clients/ACME/2023/Rushes/clip001.mov";
+
+  it("matches the filename alone like calculateMatchScore", () => {
+    const match = calculatePathMatchScore("clip001", path);
+    assert.equal(match.score, calculateMatchScore("clip001", "clip001.mov"));
+    assert.deepEqual(match.matchedSegments, [4]);
+  });
+
+  it("splits query words between folders and the filename", () => {
+    const match = calculatePathMatchScore("acme rushes clip001", path);
+    assert.deepEqual(match.matchedSegments, [1, 3, 4]);
+    assert.ok(match.score > 60 && match.score < 100, `score ${match.score}`);
+  });
+
+  it("matches words found only in folders", () => {
+    assert.deepEqual(calculatePathMatchScore("acme 2023", path).matchedSegments, [1, 2]);
+  });
+
+  it("weights folder matches below the same match in the filename", () => {
+    const inFolders = calculatePathMatchScore("acme rushes", "ACME/Rushes/take.mov");
+    const inFilename = calculatePathMatchScore("acme rushes", "Other/acme rushes.mov");
+    assert.ok(inFilename.score > inFolders.score);
+    assert.deepEqual(inFilename.matchedSegments, [1]);
+  });
+
+  it("gives ties to the segment closest to the filename", () => {
+    assert.deepEqual(calculatePathMatchScore("acme clip", "Acme/Acme/clip.mov").matchedSegments, [1, 2]);
+  });
+
+  it("fails when any word matches nowhere", () => {
+    const match = calculatePathMatchScore("acme zebra", path);
+    assert.ok(match.score <= 60, `score ${match.score}`);
+    assert.deepEqual(match.matchedSegments, []);
+  });
+
+  it("ignores empty segments from stray slashes", () => {
+    assert.deepEqual(calculatePathMatchScore("acme clip001", "/ACME//clip001.mov").matchedSegments, [1, 3]);
+  });
+});
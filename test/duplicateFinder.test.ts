@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { MemoryDataSource } from "../src/dataSource";
+import { encodeVolumeUUID } from "../src/drivebuddy";
+import { DuplicateGroup, findDuplicates, getDuplicatedGroups, getSingleCopyGroups } from "../src/duplicateFinder";
+import { fixturePath } from "./fixtures";
+
+const ARCHIVE_UUID = "1A2B3C4D-0000-0000-0000-000000000001";
+const BACKUP_UUID = "1A2B3C4D-0000-0000-0000-000000000002";
+
+function index(paths: string[]) {
+  return { entries: paths.map((relativePath) => ({ name: relativePath.split("/").pop(), relativePath })) };
+}
+
+function createSource() {
+  return new MemoryDataSource({
+    preferences: readFileSync(fixturePath("plist", "DriveBuddy.xml.plist")),
+    indexes: {
+      [`${encodeVolumeUUID(ARCHIVE_UUID)}.json`]: index([
+        "Rushes",
+        "Rushes/Clip_001.MOV",
+        "Rushes/Café.wav",
+        "Old/clip 001.mov",
+        "Only Here.pdf",
+      ]),
+      [`${encodeVolumeUUID(BACKUP_UUID)}.json`]: index(["Rushes", "Rushes/clip-001.mov", "Elsewhere/Cafe.WAV"]),
+    },
+  });
+}
+
+function summarize(groups: DuplicateGroup[]) {
+  return groups.map((group) => `${group.key}:${group.driveCount}:${group.copies.length}`);
+}
+
+describe("findDuplicates", () => {
+  it("groups files by name, folding case, accents and separators, and skips folders", async () => {
+    const groups = await findDuplicates({ source: createSource() });
+    const clip = groups.find((group) => group.key === "clip 001 mov")!;
+
+    assert.deepEqual(summarize(groups).sort(), ["cafe wav:2:2", "clip 001 mov:2:3", "only here pdf:1:1"]);
+    assert.equal(clip.name, "Clip_001.MOV");
+    assert.deepEqual(clip.copies.map((copy) => `${copy.driveName}:${copy.relativePath}`), [
+      "Archive 03:Rushes/Clip_001.MOV",
+      "Archive 03:Old/clip 001.mov",
+      "Backup:Rushes/clip-001.mov",
+    ]);
+  });
+
+  it("requires the same relative path with matchPath", async () => {
+    const groups = await findDuplicates({ source: createSource(), matchPath: true });
+    const clips = groups.filter((group) => group.key.startsWith("clip 001 mov"));
+
+    // Paths are folded for case and accents only, so clip-001 and Clip_001 are different places
+    assert.deepEqual(summarize(getDuplicatedGroups(groups)), []);
+    assert.equal(clips.length, 3);
+    assert.ok(clips.every((group) => group.driveCount === 1));
+  });
+
+  it("matches copies in the same place on different drives with matchPath", async () => {
+    const source = createSource();
+    source.setIndex(`${encodeVolumeUUID(BACKUP_UUID)}.json`, index(["RUSHES/Clip_001.mov", "rushes/café.wav"]));
+    const groups = await findDuplicates({ source, matchPath: true });
+
+    assert.deepEqual(summarize(getDuplicatedGroups(groups)).sort(), [
+      "cafe wav\0rushes/cafe.wav:2:2",
+      "clip 001 mov\0rushes/clip_001.mov:2:2",
+    ]);
+  });
+
+  it("counts copies on the same drive once per drive", async () => {
+    const groups = await findDuplicates({ source: createSource() });
+    const duplicated = getDuplicatedGroups(groups);
+    const singles = getSingleCopyGroups(groups);
+
+    assert.deepEqual(summarize(duplicated), ["cafe wav:2:2", "clip 001 mov:2:3"]);
+    assert.deepEqual(summarize(singles), ["only here pdf:1:1"]);
+  });
+
+  it("lists a file copied twice on one drive as a single copy", async () => {
+    const source = new MemoryDataSource({
+      indexes: { [`${encodeVolumeUUID(ARCHIVE_UUID)}.json`]: index(["a/take.mov", "b/Take.mov"]) },
+    });
+    const groups = await findDuplicates({ source });
+
+    assert.deepEqual(summarize(getSingleCopyGroups(groups)), ["take mov:1:2"]);
+    assert.deepEqual(getDuplicatedGroups(groups), []);
+    assert.equal(groups[0].copies[0].driveName, "Unknown Drive");
+  });
+
+  it("reports progress and stops when aborted", async () => {
+    const progress: string[] = [];
+    const onProgress = (scanned: number, total: number) => progress.push(`${scanned}/${total}`);
+    await findDuplicates({ source: createSource(), onProgress });
+    assert.deepEqual(progress, ["1/2", "2/2"]);
+
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(findDuplicates({ source: createSource(), signal: controller.signal }));
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryDataSource } from "../src/dataSource";
+import { SearchResult, encodeVolumeUUID, getPinnedFiles, searchDrivesAsync } from "../src/drivebuddy";
+import { findFavorite, getEntryTags, listTags, loadFavorites, parseTags, setPinned, setTags } from "../src/favorites";
+
+const ARCHIVE_UUID = "AAAA-1111";
+const BACKUP_UUID = "BBBB-2222";
+
+function index(paths: string[]) {
+  return { entries: paths.map((relativePath) => ({ name: relativePath.split("/").pop(), relativePath })) };
+}
+
+describe("setPinned", () => {
+  it("pins and unpins entries, dropping them once neither pinned nor tagged", () => {
+    const source = new MemoryDataSource();
+    setPinned(ARCHIVE_UUID, "Projects", true, "folder", source);
+    setPinned(ARCHIVE_UUID, "Projects/cut.mov", true, "file", source);
+
+    const pinned = findFavorite(loadFavorites(source), ARCHIVE_UUID, "Projects")!;
+    assert.equal(pinned.kind, "folder");
+    assert.ok(pinned.pinnedAt !== null);
+
+    setPinned(ARCHIVE_UUID, "Projects", false, "folder", source);
+    assert.deepEqual(loadFavorites(source).items.map((item) => item.relativePath), ["Projects/cut.mov"]);
+  });
+
+  it("keeps tags when an entry is unpinned", () => {
+    const source = new MemoryDataSource();
+    setPinned(ARCHIVE_UUID, "cut.mov", true, "file", source);
+    setTags(ARCHIVE_UUID, "cut.mov", ["masters"], "file", source);
+    setPinned(ARCHIVE_UUID, "cut.mov", false, "file", source);
+
+    const favorite = findFavorite(loadFavorites(source), ARCHIVE_UUID, "cut.mov")!;
+    assert.equal(favorite.pinnedAt, null);
+    assert.deepEqual(favorite.tags, ["masters"]);
+  });
+
+  it("lists pinned entries as results, most recently pinned first", async (t) => {
+    const source = new MemoryDataSource();
+    let now = 1000;
+    t.mock.method(Date, "now", () => now);
+    setPinned(ARCHIVE_UUID, "Old/first.mov", true, "file", source);
+    now += 1000;
+    setPinned(BACKUP_UUID, "Second", true, "folder", source);
+    setTags(ARCHIVE_UUID, "tagged-only.mov", ["x"], "file", source);
+
+    const pinned = getPinnedFiles(source);
+    const names = pinned.map((result) => `${result.kind}:${result.entry.name}`);
+    assert.deepEqual(names, ["folder:Second", "file:first.mov"]);
+    assert.equal(pinned[0].driveName, "Unknown Drive");
+  });
+});
+
+describe("setTags", () => {
+  it("adds, replaces and removes tags, dropping duplicates that differ in case or accents", () => {
+    const source = new MemoryDataSource();
+    setTags(ARCHIVE_UUID, "cut.mov", [" Masters ", "masters", "Café", "CAFE", ""], "file", source);
+    assert.deepEqual(findFavorite(loadFavorites(source), ARCHIVE_UUID, "cut.mov")!.tags, ["Masters", "Café"]);
+
+    setTags(ARCHIVE_UUID, "cut.mov", ["delivery"], "file", source);
+    assert.deepEqual(findFavorite(loadFavorites(source), ARCHIVE_UUID, "cut.mov")!.tags, ["delivery"]);
+
+    setTags(ARCHIVE_UUID, "cut.mov", [], "file", source);
+    assert.deepEqual(loadFavorites(source).items, []);
+  });
+
+  it("persists the store as JSON through the data source", () => {
+    const source = new MemoryDataSource();
+    setTags(ARCHIVE_UUID, "cut.mov", ["masters"], "file", source);
+
+    const reloaded = new MemoryDataSource({ favorites: source.readFavorites()! });
+    assert.deepEqual(loadFavorites(reloaded), loadFavorites(source));
+  });
+
+  it("treats unreadable favorites as empty", (t) => {
+    const logged = t.mock.method(console, "error", () => undefined);
+    assert.deepEqual(loadFavorites(new MemoryDataSource({ favorites: "[" })), { items: [] });
+    assert.equal(logged.mock.callCount(), 1);
+  });
+});
+
+describe("tag helpers", () => {
+  it("parses comma-separated tags", () => {
+    assert.deepEqual(parseTags(" masters, client delivery ,,"), ["masters", "client delivery"]);
+  });
+
+  it("lists every tag once, sorted", () => {
+    const source = new MemoryDataSource();
+    setTags(ARCHIVE_UUID, "a.mov", ["Masters", "b-roll"], "file", source);
+    setTags(BACKUP_UUID, "b.mov", ["masters", "Archive"], "file", source);
+    assert.deepEqual(listTags(loadFavorites(source)), ["Archive", "b-roll", "Masters"]);
+  });
+
+  it("groups folded tags by drive and path", () => {
+    const source = new MemoryDataSource();
+    setTags(ARCHIVE_UUID, "a.mov", ["Café"], "file", source);
+    setPinned(BACKUP_UUID, "b.mov", true, "file", source);
+
+    const tags = getEntryTags(loadFavorites(source));
+    assert.deepEqual([...tags.keys()], [ARCHIVE_UUID]);
+    assert.deepEqual(tags.get(ARCHIVE_UUID), { "a.mov": ["cafe"] });
+  });
+});
+
+describe("tag: searches", () => {
+  function createSource() {
+    return new MemoryDataSource({
+      indexes: {
+        [`${encodeVolumeUUID(ARCHIVE_UUID)}.json`]: index(["cut.mov", "draft.mov", "notes.txt"]),
+        [`${encodeVolumeUUID(BACKUP_UUID)}.json`]: index(["cut.mov"]),
+      },
+    });
+  }
+
+  it("finds entries by tag, ignoring case and accents", async () => {
+    const source = createSource();
+    setTags(ARCHIVE_UUID, "cut.mov", ["Délivery"], "file", source);
+    setTags(ARCHIVE_UUID, "notes.txt", ["other"], "file", source);
+
+    const results = await searchDrivesAsync("tag:DELIVERY", 10, { source });
+    const found = results.map((result) => `${result.driveUUID}:${result.entry.relativePath}`);
+    assert.deepEqual(found, [`${ARCHIVE_UUID}:cut.mov`]);
+  });
+
+  it("combines tags with text and negated tags", async () => {
+    const source = createSource();
+    setTags(ARCHIVE_UUID, "cut.mov", ["masters"], "file", source);
+    setTags(ARCHIVE_UUID, "draft.mov", ["masters", "wip"], "file", source);
+
+    const masters = await searchDrivesAsync("mov tag:masters -tag:wip", 10, { source });
+    assert.deepEqual(masters.map((result) => result.entry.relativePath), ["cut.mov"]);
+
+    const untagged = await searchDrivesAsync("cut -tag:masters", 10, { source });
+    assert.deepEqual(untagged.map((result) => result.driveUUID), [BACKUP_UUID]);
+  });
+
+  it("skips drives without tags when a tag is required", async () => {
+    const source = createSource();
+    setTags(ARCHIVE_UUID, "cut.mov", ["masters"], "file", source);
+
+    const scanned: number[] = [];
+    const onProgress = (results: SearchResult[]) => scanned.push(results.length);
+    await searchDrivesAsync("tag:masters", 10, { source, onProgress });
+    assert.equal(scanned.length, 1);
+
+    assert.deepEqual(await searchDrivesAsync("tag:masters", 10, { source: createSource() }), []);
+  });
+});
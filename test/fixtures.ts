@@ -0,0 +1,8 @@
+import { join } from "path";
+
+/**
+ * Path of a file in test/fixtures; tests run from build/test/test
+ */
+export function fixturePath(...segments: string[]): string {
+  return join(__dirname, "..", "..", "..", "test", "fixtures", ...segments);
+}
@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryDataSource } from "../src/dataSource";
+import { encodeVolumeUUID } from "../src/drivebuddy";
+import { buildFolderTree, findFolder, listFolder, loadFolderTree } from "../src/folderTree";
+
+const DRIVE_UUID = "AAAA-1111";
+
+function entry(relativePath: string, fields: object = {}) {
+  return { name: relativePath.split("/").pop()!, relativePath, ...fields };
+}
+
+describe("buildFolderTree", () => {
+  it("creates parent folders missing from the index and counts files below them", () => {
+    const root = buildFolderTree([entry("A/B/c.mov"), entry("A/d.mov"), entry("e.txt")]);
+
+    assert.equal(root.totalFiles, 3);
+    assert.equal(findFolder(root, "A")!.totalFiles, 2);
+    assert.equal(findFolder(root, "/A/B/")!.relativePath, "A/B");
+    assert.equal(findFolder(root, "A/c.mov"), null);
+  });
+
+  it("lists folder entries as folders, whether inferred or marked", () => {
+    const root = buildFolderTree([
+      entry("A", { kind: "file" }),
+      entry("A/b.mov"),
+      entry("Empty", { kind: "folder" }),
+      entry("c.mov"),
+    ]);
+    const { folders, files } = listFolder(root);
+
+    assert.deepEqual(folders.map((folder) => folder.name), ["A", "Empty"]);
+    assert.deepEqual(files.map((file) => file.name), ["c.mov"]);
+    assert.equal(findFolder(root, "Empty")!.totalFiles, 0);
+  });
+});
+
+describe("loadFolderTree", () => {
+  it("builds the tree from the search cache's kinds", async () => {
+    const source = new MemoryDataSource({
+      indexes: {
+        [`${encodeVolumeUUID(DRIVE_UUID)}.json`]: {
+          entries: [entry("Projects"), entry("Projects/cut.mov"), entry("Empty", { isDirectory: true })],
+        },
+      },
+    });
+    const root = (await loadFolderTree(DRIVE_UUID, source))!;
+
+    assert.deepEqual(listFolder(root).folders.map((folder) => folder.relativePath), ["Empty", "Projects"]);
+    assert.equal(root.totalFiles, 1);
+    assert.equal(await loadFolderTree(DRIVE_UUID, source), root);
+    assert.equal(await loadFolderTree("BBBB-2222", source), null);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { escapeCsv, escapeMarkdown } from "../src/format";
+import { countCopies, duplicatesToCsv } from "../src/duplicateFinder";
+
+describe("escapeCsv", () => {
+  it("leaves plain fields alone", () => {
+    assert.equal(escapeCsv("Archive 03"), "Archive 03");
+    assert.equal(escapeCsv(42.5), "42.5");
+    assert.equal(escapeCsv(undefined), "");
+  });
+
+  it("quotes fields with commas, quotes or line breaks", () => {
+    assert.equal(escapeCsv("a,b"), '"a,b"');
+    assert.equal(escapeCsv('say "hi".txt'), '"say ""hi"".txt"');
+    assert.equal(escapeCsv("line\nbreak"), '"line\nbreak"');
+    assert.equal(escapeCsv("carriage\rreturn"), '"carriage\rreturn"');
+  });
+});
+
+describe("escapeMarkdown", () => {
+  it("escapes formatting characters", () => {
+    assert.equal(escapeMarkdown("my_file *final* [v2] #3.mov"), "my\\_file \\*final\\* \\[v2\\] \\#3.mov");
+  });
+});
+
+describe("duplicatesToCsv", () => {
+  const groups = [
+    {
+      key: "clip 001 mov",
+      name: "Clip, 001.mov",
+      driveCount: 2,
+      copies: [
+        { driveUUID: "A", driveName: "Archive", relativePath: "Clip, 001.mov" },
+        { driveUUID: "B", driveName: 'Backup "2"', relativePath: "old/Clip, 001.mov" },
+      ],
+    },
+  ];
+
+  it("writes one escaped row per copy", () => {
+    assert.equal(
+      duplicatesToCsv(groups),
+      [
+        "Name,Drive Count,Drive,Volume UUID,Relative Path",
+        '"Clip, 001.mov",2,Archive,A,"Clip, 001.mov"',
+        '"Clip, 001.mov",2,"Backup ""2""",B,"old/Clip, 001.mov"',
+        "",
+      ].join("\n")
+    );
+    assert.equal(countCopies(groups), 2);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calculateFrecency, getFrecencyBoost, getFrecencyBoosts } from "../src/frecency";
+import type { ClickHistory } from "../src/drivebuddy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 31);
+
+function approx(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+}
+
+const access = (accessCount: number, ageDays: number) => ({
+  driveUUID: "A",
+  relativePath: "a.mov",
+  accessCount,
+  lastAccessed: NOW - ageDays * DAY_MS,
+});
+
+describe("calculateFrecency", () => {
+  it("halves every two weeks", () => {
+    approx(calculateFrecency(access(8, 0), NOW), 8);
+    approx(calculateFrecency(access(8, 14), NOW), 4);
+    approx(calculateFrecency(access(8, 28), NOW), 2);
+  });
+
+  it("ranks recent opens above the same number of older ones", () => {
+    assert.ok(calculateFrecency(access(5, 3), NOW) > calculateFrecency(access(5, 30), NOW));
+  });
+
+  it("does not grow for opens dated in the future", () => {
+    approx(calculateFrecency(access(3, -10), NOW), 3);
+  });
+});
+
+describe("getFrecencyBoost", () => {
+  it("gives half the weight at three decayed opens", () => {
+    approx(getFrecencyBoost(3, 20), 10);
+  });
+
+  it("never reaches the weight, however often a file is opened", () => {
+    const boost = getFrecencyBoost(1e9, 20);
+    assert.ok(boost < 20 && boost > 19.99);
+    assert.ok(getFrecencyBoost(100, 20) > getFrecencyBoost(10, 20));
+  });
+
+  it("is zero for a zero, negative or invalid weight", () => {
+    for (const weight of [0, -5, NaN]) {
+      assert.equal(getFrecencyBoost(10, weight), 0, String(weight));
+    }
+  });
+
+  it("is zero for files never opened", () => {
+    assert.equal(getFrecencyBoost(0, 20), 0);
+  });
+});
+
+describe("getFrecencyBoosts", () => {
+  const history: ClickHistory = {
+    files: [
+      { driveUUID: "A", relativePath: "a/often.mov", accessCount: 9, lastAccessed: NOW },
+      { driveUUID: "A", relativePath: "a/once.mov", accessCount: 1, lastAccessed: NOW - 60 * DAY_MS },
+      { driveUUID: "B", relativePath: "b/never.mov", accessCount: 0, lastAccessed: NOW },
+    ],
+  };
+
+  it("groups boosts by drive and skips files without a boost", () => {
+    const boosts = getFrecencyBoosts(history, 20, NOW);
+    assert.deepEqual([...boosts.keys()], ["A"]);
+    approx(boosts.get("A")!["a/often.mov"], 15);
+    assert.ok(boosts.get("A")!["a/once.mov"] < 1);
+  });
+
+  it("returns no boosts at zero weight, so results rank by match alone", () => {
+    assert.equal(getFrecencyBoosts(history, 0, NOW).size, 0);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryDataSource } from "../src/dataSource";
+import { encodeVolumeUUID } from "../src/drivebuddy";
+import { captureSnapshots, diffPaths, getIndexChanges } from "../src/indexHistory";
+import { getSearchCache, snapshotSearchCache } from "../src/searchCache";
+import { listSnapshots } from "../src/snapshots";
+
+const DRIVE_UUID = "1A2B3C4D-0000-0000-0000-000000000001";
+const INDEX_FILE = `${encodeVolumeUUID(DRIVE_UUID)}.json`;
+
+function index(generatedAt: number, paths: string[]) {
+  return {
+    generatedAt,
+    entries: paths.map((relativePath) => ({ name: relativePath.split("/").pop(), relativePath })),
+  };
+}
+
+describe("diffPaths", () => {
+  it("returns added and removed paths, sorted", () => {
+    assert.deepEqual(diffPaths(["b.mov", "a.mov", "kept.txt"], ["kept.txt", "d.mov", "c.mov"]), {
+      added: ["c.mov", "d.mov"],
+      removed: ["a.mov", "b.mov"],
+    });
+  });
+
+  it("returns no changes for identical lists", () => {
+    assert.deepEqual(diffPaths(["a", "b"], ["b", "a"]), { added: [], removed: [] });
+  });
+});
+
+describe("captureSnapshots", () => {
+  it("records a snapshot of every drive's current index", async () => {
+    const source = new MemoryDataSource({ indexes: { [INDEX_FILE]: index(100, ["Projects", "Projects/cut.mov"]) } });
+    await captureSnapshots(source);
+    await captureSnapshots(source);
+
+    const snapshots = listSnapshots(source, DRIVE_UUID);
+    assert.equal(snapshots.length, 1);
+    assert.equal(snapshots[0].generatedAt, 100);
+  });
+
+  it("keeps going when an index can't be read", async (t) => {
+    const logged = t.mock.method(console, "error", () => undefined);
+    const other = "RFJJVkUtQg==.json";
+    const source = new MemoryDataSource({ indexes: { [other]: "{not json", [INDEX_FILE]: index(100, ["a.mov"]) } });
+    await captureSnapshots(source);
+
+    assert.equal(listSnapshots(source, DRIVE_UUID).length, 1);
+    assert.ok(logged.mock.callCount() >= 1);
+  });
+});
+
+describe("getIndexChanges", () => {
+  it("diffs the previous scan against a rescan", async () => {
+    const source = new MemoryDataSource({ indexes: { [INDEX_FILE]: index(100, ["old.mov", "kept.mov"]) } });
+    await getSearchCache(source, INDEX_FILE);
+    source.setIndex(INDEX_FILE, index(200, ["kept.mov", "new.mov"]));
+    await getSearchCache(source, INDEX_FILE);
+    await captureSnapshots(source);
+
+    assert.deepEqual(listSnapshots(source, DRIVE_UUID).map((info) => info.generatedAt), [200, 100]);
+    assert.deepEqual(getIndexChanges(DRIVE_UUID, 100, 200, source), { added: ["new.mov"], removed: ["old.mov"] });
+  });
+
+  it("returns null when either scan has no snapshot", () => {
+    assert.equal(getIndexChanges(DRIVE_UUID, 1, 2, new MemoryDataSource()), null);
+  });
+});
+
+describe("snapshotSearchCache", () => {
+  it("logs instead of rejecting when recording fails", async (t) => {
+    const logged = t.mock.method(console, "error", () => undefined);
+    const source = new MemoryDataSource();
+    Object.defineProperty(source, "historyDir", {
+      get() {
+        throw new Error("history unavailable");
+      },
+    });
+    const indexed = new MemoryDataSource({ indexes: { [INDEX_FILE]: index(1, ["a"]) } });
+    const cache = await getSearchCache(indexed, INDEX_FILE);
+
+    await snapshotSearchCache(source, INDEX_FILE, cache);
+    assert.equal(logged.mock.callCount(), 1);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "stream";
+import { IndexParseError, IndexStreamParser, readEntryKind, streamIndexEntries } from "../src/indexReader";
+import type { SearchEntry } from "../src/drivebuddy";
+
+const ENTRIES = [
+  { name: "report {final}.pdf", relativePath: "Docs/report {final}.pdf" },
+  { name: 'say "hi".txt', relativePath: 'Docs/say "hi".txt' },
+  { name: "back\\slash}.txt", relativePath: "Docs/back\\slash}.txt" },
+  { name: "Café ✓ 🎬.mov", relativePath: "Clips/Café ✓ 🎬.mov", type: "file" },
+  { name: "Clips", relativePath: "Clips", isDirectory: true, tags: [["a"], { b: "}" }] },
+];
+
+/**
+ * Feeds the text to a parser in chunks of the given size
+ */
+function parse(text: string, chunkSize = text.length) {
+  const entries: SearchEntry[] = [];
+  const parser = new IndexStreamParser((entry) => {
+    entries.push(entry);
+  });
+  for (let i = 0; i < text.length; i += chunkSize) {
+    parser.write(text.slice(i, i + chunkSize));
+  }
+  parser.end();
+  return { entries, generatedAt: parser.generatedAt };
+}
+
+describe("IndexStreamParser", () => {
+  it("reads minified indexes", () => {
+    const { entries, generatedAt } = parse(JSON.stringify({ generatedAt: 750000000.5, entries: ENTRIES }));
+    assert.deepEqual(entries, ENTRIES);
+    assert.equal(generatedAt, 750000000.5);
+  });
+
+  it("reads pretty-printed indexes", () => {
+    const { entries, generatedAt } = parse(JSON.stringify({ generatedAt: 1, entries: ENTRIES }, null, "\t") + "\r\n");
+    assert.deepEqual(entries, ENTRIES);
+    assert.equal(generatedAt, 1);
+  });
+
+  it("reads generatedAt after the entries", () => {
+    const { entries, generatedAt } = parse(JSON.stringify({ entries: ENTRIES, version: [2], generatedAt: -3.5e2 }));
+    assert.deepEqual(entries, ENTRIES);
+    assert.equal(generatedAt, -350);
+  });
+
+  it("decodes \\u escapes, including surrogate pairs", () => {
+    const text = '{"entries":[{"name":"caf\\u00e9 \\ud83c\\udfac","relativePath":"a\\/caf\\u00E9 \\ud83c\\udfac"}]}';
+    assert.deepEqual(parse(text).entries, [{ name: "café 🎬", relativePath: "a/café 🎬" }]);
+  });
+
+  it("reads the same entries when fed one character at a time", () => {
+    const text = JSON.stringify({ generatedAt: 12345, entries: ENTRIES, note: "\\u0041 \" } ]" }, null, 2);
+    assert.deepEqual(parse(text, 1), parse(text));
+    assert.deepEqual(parse(text, 1).entries, ENTRIES);
+    assert.equal(parse(text, 1).generatedAt, 12345);
+  });
+
+  it("only emits entries of the top-level entries array", () => {
+    const text = JSON.stringify({
+      other: { entries: [{ name: "x", relativePath: "x" }] },
+      entries: [{ name: "y", relativePath: "y", children: { entries: [{ name: "z", relativePath: "z" }] } }],
+    });
+    assert.deepEqual(parse(text).entries.map((entry) => entry.name), ["y"]);
+  });
+
+  it("skips entries without a name or relative path", () => {
+    const text = JSON.stringify({
+      entries: [{ name: "", relativePath: "a" }, { name: "b" }, "c", null, 4, { name: "d", relativePath: "d" }],
+    });
+    assert.deepEqual(parse(text).entries, [{ name: "d", relativePath: "d" }]);
+  });
+
+  it("stops when onEntry returns false", () => {
+    const names: string[] = [];
+    const parser = new IndexStreamParser((entry) => {
+      names.push(entry.name);
+      return names.length < 2;
+    });
+    parser.write(JSON.stringify({ entries: ENTRIES }));
+    assert.equal(parser.stopped, true);
+    assert.deepEqual(names, [ENTRIES[0].name, ENTRIES[1].name]);
+  });
+
+  for (const text of ['{"entries":[}', '{"entries" [] }', '{"a":1}}', '{"a":tru}', '{"a":1.2.3}', "{'a':1}"]) {
+    it(`rejects ${text}`, () => {
+      assert.throws(() => parse(text), IndexParseError);
+    });
+  }
+
+  it("reports a truncated index at the end of input", () => {
+    assert.throws(() => parse('{"entries":[{"name":"a","relativePath":"a"},{"name":"b'), IndexParseError);
+  });
+});
+
+describe("streamIndexEntries", () => {
+  it("resolves with generatedAt after streaming every entry", async () => {
+    const names: string[] = [];
+    const text = JSON.stringify({ entries: ENTRIES, generatedAt: 42 });
+    const generatedAt = await streamIndexEntries(Readable.from([text.slice(0, 7), text.slice(7)]), (entry) => {
+      names.push(entry.name);
+    });
+    assert.equal(generatedAt, 42);
+    assert.deepEqual(names, ENTRIES.map((entry) => entry.name));
+  });
+
+  it("keeps the entries read before a truncated end", async (t) => {
+    const logged = t.mock.method(console, "error", () => undefined);
+    const names: string[] = [];
+    const text = '{"generatedAt": 7, "entries": [{"name": "a", "relativePath": "a"}, {"name": "b", "rela';
+    const generatedAt = await streamIndexEntries(Readable.from([text]), (entry) => {
+      names.push(entry.name);
+    });
+    assert.equal(generatedAt, 7);
+    assert.deepEqual(names, ["a"]);
+    assert.equal(logged.mock.callCount(), 1);
+  });
+
+  it("rejects malformed indexes", async () => {
+    await assert.rejects(
+      streamIndexEntries(Readable.from(['{"entries": [{"name": "a", "relativePath": "a"} x]}']), () => undefined),
+      IndexParseError
+    );
+  });
+});
+
+describe("readEntryKind", () => {
+  const entry = (fields: object) => ({ name: "x", relativePath: "x", ...fields }) as SearchEntry;
+
+  it("reads type and kind strings, ignoring case", () => {
+    assert.equal(readEntryKind(entry({ type: "Directory" })), "folder");
+    assert.equal(readEntryKind(entry({ kind: "folder" })), "folder");
+    assert.equal(readEntryKind(entry({ type: "dir" })), "folder");
+    assert.equal(readEntryKind(entry({ type: "FILE" })), "file");
+  });
+
+  it("reads isDirectory and isFolder flags", () => {
+    assert.equal(readEntryKind(entry({ isDirectory: true })), "folder");
+    assert.equal(readEntryKind(entry({ isFolder: false })), "file");
+  });
+
+  it("returns undefined when the index has no usable type", () => {
+    assert.equal(readEntryKind(entry({})), undefined);
+    assert.equal(readEntryKind(entry({ type: "symlink", isDirectory: "yes" })), undefined);
+  });
+
+  it("reads the kinds of streamed entries", () => {
+    const kinds = parse(JSON.stringify({ entries: ENTRIES })).entries.map(readEntryKind);
+    assert.deepEqual(kinds, [undefined, undefined, undefined, "file", "folder"]);
+  });
+});
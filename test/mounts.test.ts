@@ -0,0 +1,88 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DiskutilMountTableProvider, MountResolver, MountTableProvider, StaticMountTableProvider } from "../src/mounts";
+
+const root = mkdtempSync(join(tmpdir(), "mounts-test-"));
+const backup = join(root, "Backup");
+const backupCopy = join(root, "Backup 1");
+const untitled = join(root, "Untitled");
+[backup, backupCopy, untitled].forEach((dir) => mkdirSync(dir));
+
+after(() => rmSync(root, { recursive: true, force: true }));
+
+describe("MountResolver", () => {
+  const provider = new StaticMountTableProvider([
+    { volumeUUID: "AAAA-1111", mountPoint: backup, name: "Backup" },
+    { volumeUUID: "bbbb-2222", mountPoint: backupCopy, name: "Backup" },
+  ]);
+
+  it("resolves drives by UUID, ignoring case", () => {
+    const resolver = new MountResolver(provider);
+    assert.equal(resolver.resolve("aaaa-1111"), backup);
+    assert.equal(resolver.resolve("BBBB-2222"), backupCopy);
+  });
+
+  it("tells drives with the same name apart", () => {
+    const resolver = new MountResolver(provider);
+    assert.equal(resolver.resolve("BBBB-2222", { name: "Backup", path: backup }), backupCopy);
+  });
+
+  it("falls back to the last known path for drives missing from the table", () => {
+    const resolver = new MountResolver(provider);
+    assert.equal(resolver.resolve("CCCC-3333", { name: "Untitled", path: untitled }), untitled);
+    assert.equal(resolver.isMounted("CCCC-3333", { path: untitled }), true);
+  });
+
+  it("does not fall back to a mount point another drive was identified at", () => {
+    const resolver = new MountResolver(provider);
+    assert.equal(resolver.resolve("CCCC-3333", { name: "Backup", path: backup }), null);
+  });
+
+  it("reports drives that are neither in the table nor at their last known path as offline", () => {
+    const resolver = new MountResolver(provider);
+    assert.equal(resolver.resolve("CCCC-3333", { path: join(root, "Missing") }), null);
+    assert.equal(resolver.isMounted("CCCC-3333"), false);
+  });
+
+  it("falls back to the last known path when the mount table can't be read", () => {
+    const failing: MountTableProvider = {
+      listMountedVolumes: () => {
+        throw new Error("diskutil not found");
+      },
+    };
+    const resolver = new MountResolver(failing);
+    assert.equal(resolver.resolve("AAAA-1111", { path: backup }), backup);
+  });
+
+  it("reads the table once per refresh interval", async () => {
+    const changing = new StaticMountTableProvider([]);
+    const resolver = new MountResolver(changing, 60000);
+    assert.equal(resolver.resolve("AAAA-1111"), null);
+
+    changing.volumes = [{ volumeUUID: "AAAA-1111", mountPoint: backup, name: "Backup" }];
+    assert.equal(resolver.resolve("AAAA-1111"), null);
+
+    await resolver.refresh();
+    assert.equal(resolver.resolve("AAAA-1111"), backup);
+  });
+});
+
+describe("DiskutilMountTableProvider", () => {
+  it("lists remembered volumes without identifying them again", async () => {
+    const volume = { volumeUUID: "AAAA-1111", mountPoint: backup, name: "Backup" };
+    const provider = new DiskutilMountTableProvider(root, [
+      { mountPoint: backup, device: statSync(backup).dev, volume },
+      { mountPoint: join(root, "Ejected"), device: 1, volume: null },
+    ]);
+
+    assert.deepEqual(provider.listMountedVolumes(), [volume]);
+    await provider.whenIdentified();
+
+    const known = provider.getKnownMounts();
+    assert.deepEqual(known.map((mount) => mount.mountPoint).sort(), [backup, backupCopy, untitled]);
+    assert.deepEqual(known.find((mount) => mount.mountPoint === backup)?.volume, volume);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { foldText, getInitials, getTokens, normalizeText, scoreTokenMatch } from "../src/normalize";
+
+describe("foldText", () => {
+  it("folds case and diacritics in composed and decomposed text", () => {
+    assert.equal(foldText("Café".normalize("NFC")), "cafe");
+    assert.equal(foldText("Café".normalize("NFD")), "cafe");
+    assert.equal(foldText("RÉSUMÉ Ångström"), "resume angstrom");
+  });
+
+  it("folds compatibility characters", () => {
+    assert.equal(foldText("ﬁle Ⅳ"), "file iv");
+  });
+
+  it("keeps separators", () => {
+    assert.equal(foldText("My_Project-v2.mov"), "my_project-v2.mov");
+  });
+});
+
+describe("normalizeText", () => {
+  it("collapses runs of separators to single spaces", () => {
+    assert.equal(normalizeText("My_Project-v2.mov"), "my project v2 mov");
+    assert.equal(normalizeText("  a__b -- c..d\t"), "a b c d");
+  });
+});
+
+describe("getTokens", () => {
+  it("splits on separators, camelCase and letter/digit boundaries", () => {
+    assert.deepEqual(getTokens("MyProjectFinal_v2.mov"), ["my", "project", "final", "v", "2", "mov"]);
+    assert.deepEqual(getTokens("clip001"), ["clip", "001"]);
+    assert.deepEqual(getTokens("Émile-Zola"), ["emile", "zola"]);
+  });
+
+  it("keeps runs of capitals together", () => {
+    assert.deepEqual(getTokens("ACME rushes"), ["acme", "rushes"]);
+  });
+
+  it("returns no tokens for separators only", () => {
+    assert.deepEqual(getTokens(" _-. "), []);
+  });
+});
+
+describe("getInitials", () => {
+  it("joins the first letter of every word", () => {
+    assert.equal(getInitials("my_project_final.mov"), "mpfm");
+    assert.equal(getInitials("MyProjectFinal"), "mpf");
+    assert.equal(getInitials("Élan Vital"), "ev");
+  });
+});
+
+describe("scoreTokenMatch", () => {
+  it("scores query words that start filename words, in order", () => {
+    const score = scoreTokenMatch("proj fin", "my_project_final.mov");
+    assert.ok(score >= 80 && score <= 89, `score ${score}`);
+    assert.equal(scoreTokenMatch("fin proj", "my_project_final.mov"), 0);
+  });
+
+  it("scores closer to 89 the more of each word is typed", () => {
+    assert.ok(scoreTokenMatch("project final", "my_project_final") > scoreTokenMatch("pro fi", "my_project_final"));
+  });
+
+  it("matches word prefixes across accents and camelCase", () => {
+    assert.ok(scoreTokenMatch("resume fin", "RésuméFinal.pdf") >= 80);
+  });
+
+  it("scores acronyms of the leading words above acronyms elsewhere", () => {
+    const leading = scoreTokenMatch("mpf", "my_project_final.mov");
+    const inner = scoreTokenMatch("pfm", "my_project_final.mov");
+
+    assert.ok(leading >= 82 && leading <= 88, `leading ${leading}`);
+    assert.equal(inner, 75);
+    assert.ok(scoreTokenMatch("mpfm", "my_project_final.mov") > leading);
+  });
+
+  it("returns 0 without words on either side", () => {
+    assert.equal(scoreTokenMatch("", "clip.mov"), 0);
+    assert.equal(scoreTokenMatch("clip", "..."), 0);
+    assert.equal(scoreTokenMatch("zz", "my_project_final.mov"), 0);
+  });
+});
@@ -0,0 +1,32 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getAvailablePath } from "../src/paths";
+
+const root = mkdtempSync(join(tmpdir(), "paths-test-"));
+
+after(() => rmSync(root, { recursive: true, force: true }));
+
+describe("getAvailablePath", () => {
+  it("keeps the name when nothing uses it", () => {
+    assert.equal(getAvailablePath(root, "free.csv"), join(root, "free.csv"));
+  });
+
+  it("numbers the name before the extension until it is free", () => {
+    writeFileSync(join(root, "export.csv"), "");
+    writeFileSync(join(root, "export 2.csv"), "");
+    assert.equal(getAvailablePath(root, "export.csv"), join(root, "export 3.csv"));
+  });
+
+  it("counts folders as taken and numbers names without an extension", () => {
+    mkdirSync(join(root, "Projects"));
+    assert.equal(getAvailablePath(root, "Projects"), join(root, "Projects 2"));
+  });
+
+  it("only treats the last extension as the extension", () => {
+    writeFileSync(join(root, "backup.tar.gz"), "");
+    assert.equal(getAvailablePath(root, "backup.tar.gz"), join(root, "backup.tar 2.gz"));
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ParsedQuery, QuerySyntaxError, getScoringText, matchesDrive, matchesEntry, parseQuery } from "../src/query";
+
+function syntaxError(input: string): QuerySyntaxError {
+  try {
+    parseQuery(input);
+  } catch (error) {
+    assert.ok(error instanceof QuerySyntaxError);
+    return error;
+  }
+  assert.fail(`${JSON.stringify(input)} parsed without an error`);
+}
+
+function matches(query: ParsedQuery, relativePath: string): boolean {
+  return matchesEntry(query, { name: relativePath.split("/").pop()!, relativePath });
+}
+
+describe("parseQuery", () => {
+  it("keeps plain words as lowercase free text", () => {
+    assert.deepEqual(parseQuery("  Final   CUT "), { text: "final cut", clauses: [] });
+  });
+
+  it("reads quoted drive names", () => {
+    const query = parseQuery('drive:"Archive 03" final');
+    assert.equal(query.text, "final");
+    assert.deepEqual(query.clauses, [{ field: "drive", values: ["archive 03"], negated: false }]);
+    assert.equal(matchesDrive(query, "UUID-1", "Archive 03"), true);
+    assert.equal(matchesDrive(query, "UUID-2", "Archive"), false);
+  });
+
+  it("matches drives by volume UUID, ignoring case", () => {
+    const query = parseQuery("drive:1a2b-3c4d");
+    assert.equal(matchesDrive(query, "1A2B-3C4D", "Backup"), true);
+  });
+
+  it("reads alternative extensions, with or without a leading dot", () => {
+    const query = parseQuery("ext:MOV,.mp4,*.wav");
+    assert.deepEqual(query.clauses, [{ field: "ext", values: ["mov", "mp4", "wav"], negated: false }]);
+    assert.equal(matches(query, "a/clip.mp4"), true);
+    assert.equal(matches(query, "a/clip.mxf"), false);
+  });
+
+  it("rejects a clause without a value", () => {
+    for (const input of ["ext:", "ext: mov", "path:", 'drive:""', "tag:,"]) {
+      assert.match(syntaxError(input).message, /needs a value/, input);
+    }
+  });
+
+  it("matches path clauses anywhere in the relative path, without a leading slash", () => {
+    const query = parseQuery("path:/Clients/ACME");
+    assert.deepEqual(query.clauses, [{ field: "path", values: ["clients/acme"], negated: false }]);
+    assert.equal(matches(query, "Work/Clients/Acme/cut.mov"), true);
+    assert.equal(matches(query, "Work/Clients/Other/cut.mov"), false);
+  });
+
+  it("excludes filenames with a negated term", () => {
+    const query = parseQuery("final -Proxy");
+    assert.equal(query.text, "final");
+    assert.deepEqual(query.clauses, [{ field: "text", values: ["proxy"], negated: true }]);
+    assert.equal(matches(query, "a/final.mov"), true);
+    assert.equal(matches(query, "a/final_proxy.mov"), false);
+  });
+
+  it("negates filters and phrases", () => {
+    const query = parseQuery('-ext:xml -"rough cut"');
+    assert.deepEqual(query.clauses, [
+      { field: "ext", values: ["xml"], negated: true },
+      { field: "text", values: ["rough cut"], negated: true },
+    ]);
+    assert.equal(matches(query, "a/Rough_Cut.mov"), false);
+    assert.equal(matches(query, "a/edit.xml"), false);
+    assert.equal(matches(query, "a/final.mov"), true);
+  });
+
+  it("rejects a lone or trailing minus", () => {
+    assert.equal(syntaxError("-").position, 0);
+    assert.equal(syntaxError("final - proxy").position, 6);
+    assert.equal(syntaxError("final -").position, 6);
+  });
+
+  it("rejects excluding separators only", () => {
+    assert.equal(syntaxError("final -_").position, 6);
+  });
+
+  it("rejects an unterminated quote", () => {
+    assert.equal(syntaxError('final "rough cut').position, 6);
+    assert.equal(syntaxError('drive:"Archive').position, 6);
+  });
+
+  it("rejects an empty phrase", () => {
+    assert.match(syntaxError('""').message, /Empty quoted phrase/);
+  });
+
+  it("adds required phrases to the scoring text", () => {
+    const query = parseQuery('final "Rough Cut" -proxy');
+    assert.equal(getScoringText(query), "final rough cut");
+  });
+
+  it("treats unknown fields as free text", () => {
+    assert.deepEqual(parseQuery("Scene:12"), { text: "scene:12", clauses: [] });
+  });
+});
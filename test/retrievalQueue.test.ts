@@ -0,0 +1,146 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MemoryDataSource } from "../src/dataSource";
+import { StaticMountTableProvider, setMountTableProvider } from "../src/mounts";
+import {
+  clearFinishedRetrievals,
+  loadRetrievalQueue,
+  processRetrievalQueue,
+  removeRetrieval,
+  requestRetrieval,
+  retryRetrieval,
+} from "../src/retrievalQueue";
+
+const root = mkdtempSync(join(tmpdir(), "retrieval-queue-test-"));
+const archive = join(root, "Archive");
+
+mkdirSync(join(archive, "Projects", "Acme"), { recursive: true });
+writeFileSync(join(archive, "Projects", "cut.mov"), "cut");
+writeFileSync(join(archive, "Projects", "Acme", "brief.txt"), "brief");
+
+// Only the archive is connected; the shelf drive stays offline
+setMountTableProvider(
+  new StaticMountTableProvider([{ volumeUUID: "AAAA-1111", mountPoint: archive, name: "Archive" }])
+);
+
+after(() => rmSync(root, { recursive: true, force: true }));
+
+let destinations = 0;
+
+function newDestination(): string {
+  return join(root, `Retrieved ${++destinations}`);
+}
+
+function statuses(source: MemoryDataSource) {
+  return loadRetrievalQueue(source).items.map((item) => `${item.relativePath}:${item.status}`);
+}
+
+describe("requestRetrieval", () => {
+  it("queues an entry once while it is pending", () => {
+    const source = new MemoryDataSource();
+    assert.equal(requestRetrieval("AAAA-1111", "Archive", "Projects/cut.mov", "file", source), true);
+    assert.equal(requestRetrieval("AAAA-1111", "Archive", "Projects/cut.mov", "file", source), false);
+    assert.deepEqual(statuses(source), ["Projects/cut.mov:pending"]);
+  });
+
+  it("retries, removes and clears requests", () => {
+    const source = new MemoryDataSource();
+    const failed = { driveUUID: "AAAA-1111", driveName: "Archive", kind: "file", requestedAt: 1 };
+    const queue = {
+      items: [
+        { ...failed, relativePath: "a.mov", status: "failed", error: "gone", completedAt: 2 },
+        { ...failed, relativePath: "b.mov", status: "done", completedAt: 2 },
+        { ...failed, relativePath: "c.mov", status: "pending" },
+      ],
+    };
+    source.writeRetrievalQueue(JSON.stringify(queue));
+
+    retryRetrieval("AAAA-1111", "a.mov", source);
+    assert.deepEqual(loadRetrievalQueue(source).items[0], { ...failed, relativePath: "a.mov", status: "pending" });
+
+    clearFinishedRetrievals(source);
+    assert.deepEqual(statuses(source), ["a.mov:pending", "c.mov:pending"]);
+
+    removeRetrieval("AAAA-1111", "a.mov", source);
+    assert.deepEqual(statuses(source), ["c.mov:pending"]);
+  });
+});
+
+describe("processRetrievalQueue", () => {
+  it("copies pending entries once their drive is mounted", async () => {
+    const source = new MemoryDataSource();
+    const destination = newDestination();
+    requestRetrieval("AAAA-1111", "Archive", "Projects/cut.mov", "file", source);
+    requestRetrieval("AAAA-1111", "Archive", "Projects/Acme", "folder", source);
+
+    const outcomes = await processRetrievalQueue({ destination, source });
+
+    assert.equal(outcomes.length, 1);
+    assert.equal(outcomes[0].driveName, "Archive");
+    assert.equal(outcomes[0].done.length, 2);
+    assert.deepEqual(statuses(source), ["Projects/cut.mov:done", "Projects/Acme:done"]);
+    assert.equal(readFileSync(join(destination, "cut.mov"), "utf8"), "cut");
+    assert.equal(readFileSync(join(destination, "Acme", "brief.txt"), "utf8"), "brief");
+    assert.equal(loadRetrievalQueue(source).items[0].copiedTo, join(destination, "cut.mov"));
+  });
+
+  it("numbers copies instead of replacing files already in the destination", async () => {
+    const source = new MemoryDataSource();
+    const destination = newDestination();
+    mkdirSync(destination);
+    writeFileSync(join(destination, "cut.mov"), "earlier");
+    requestRetrieval("AAAA-1111", "Archive", "Projects/cut.mov", "file", source);
+
+    await processRetrievalQueue({ destination, source });
+
+    assert.equal(readFileSync(join(destination, "cut.mov"), "utf8"), "earlier");
+    assert.equal(readFileSync(join(destination, "cut 2.mov"), "utf8"), "cut");
+  });
+
+  it("keeps entries pending while their drive is offline", async () => {
+    const source = new MemoryDataSource();
+    requestRetrieval("CCCC-3333", "Shelf", "old.mov", "file", source);
+
+    assert.deepEqual(await processRetrievalQueue({ destination: newDestination(), source }), []);
+    assert.deepEqual(statuses(source), ["old.mov:pending"]);
+  });
+
+  it("marks entries missing from the drive as failed", async (t) => {
+    t.mock.method(console, "error", () => undefined);
+    const source = new MemoryDataSource();
+    requestRetrieval("AAAA-1111", "Archive", "Projects/moved.mov", "file", source);
+
+    const [outcome] = await processRetrievalQueue({ destination: newDestination(), source });
+
+    assert.equal(outcome.failed.length, 1);
+    const [item] = loadRetrievalQueue(source).items;
+    assert.equal(item.status, "failed");
+    assert.match(item.error!, /Not found on Archive/);
+  });
+
+  it("only marks entries done without a destination", async () => {
+    const source = new MemoryDataSource();
+    requestRetrieval("AAAA-1111", "Archive", "Projects/cut.mov", "file", source);
+
+    const [outcome] = await processRetrievalQueue({ source });
+    assert.equal(outcome.done.length, 1);
+    assert.equal(loadRetrievalQueue(source).items[0].copiedTo, undefined);
+  });
+
+  it("keeps requests made and removed while it runs", async () => {
+    const source = new MemoryDataSource();
+    requestRetrieval("AAAA-1111", "Archive", "Projects/cut.mov", "file", source);
+    requestRetrieval("AAAA-1111", "Archive", "Projects/Acme", "folder", source);
+
+    // The queue is read before the first await, so these changes land mid-run
+    const running = processRetrievalQueue({ destination: newDestination(), source });
+    removeRetrieval("AAAA-1111", "Projects/Acme", source);
+    requestRetrieval("CCCC-3333", "Shelf", "old.mov", "file", source);
+    await running;
+
+    assert.deepEqual(statuses(source), ["Projects/cut.mov:done", "old.mov:pending"]);
+  });
+});
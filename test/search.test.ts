@@ -0,0 +1,215 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileSystemDataSource, MemoryDataSource } from "../src/dataSource";
+import {
+  SearchResult,
+  encodeVolumeUUID,
+  getRecentFiles,
+  loadClickHistory,
+  loadDriveInfo,
+  recordFileAccess,
+  searchDrivesAsync,
+} from "../src/drivebuddy";
+import { setTags } from "../src/favorites";
+import { fixturePath } from "./fixtures";
+
+const ARCHIVE_UUID = "1A2B3C4D-0000-0000-0000-000000000001";
+const BACKUP_UUID = "1A2B3C4D-0000-0000-0000-000000000002";
+const UNKNOWN_UUID = "1A2B3C4D-0000-0000-0000-00000000FFFF";
+const support = mkdtempSync(join(tmpdir(), "search-test-"));
+
+after(() => rmSync(support, { recursive: true, force: true }));
+
+function index(paths: string[]) {
+  const entries = paths.map((relativePath) => ({ name: relativePath.split("/").pop(), relativePath }));
+  return { generatedAt: 1, entries };
+}
+
+function createSource() {
+  return new MemoryDataSource({
+    preferences: readFileSync(fixturePath("plist", "DriveBuddy.xml.plist")),
+    indexes: {
+      [`${encodeVolumeUUID(ARCHIVE_UUID)}.json`]: index([
+        "Clients",
+        "Clients/Acme",
+        "Clients/Acme/clip001.mov",
+        "Clients/Acme/clip002.mov",
+        "Clients/Acme/score.wav",
+        "Clients/Acme/Rushes",
+        "Clients/Acme/Rushes/take_final.mp4",
+      ]),
+      [`${encodeVolumeUUID(BACKUP_UUID)}.json`]: index(["clip001.mov", "clip notes.txt"]),
+      [`${encodeVolumeUUID(UNKNOWN_UUID)}.json`]: index(["stray.mov"]),
+    },
+  });
+}
+
+function describeResults(results: SearchResult[]) {
+  return results.map((result) => `${result.driveName}:${result.entry.relativePath}`);
+}
+
+describe("searchDrivesAsync", () => {
+  it("ranks better matches first, then by drive name and path", async () => {
+    const results = await searchDrivesAsync("clip001", 10, { source: createSource() });
+
+    assert.deepEqual(describeResults(results).slice(0, 2), [
+      "Archive 03:Clients/Acme/clip001.mov",
+      "Backup:clip001.mov",
+    ]);
+    for (let i = 1; i < results.length; i++) {
+      assert.ok(results[i - 1].matchScore >= results[i].matchScore);
+    }
+  });
+
+  it("matches words across folders and filenames", async () => {
+    const [best] = await searchDrivesAsync("acme rushes final", 10, { source: createSource() });
+    assert.equal(best.entry.relativePath, "Clients/Acme/Rushes/take_final.mp4");
+    assert.equal(best.kind, "file");
+  });
+
+  it("keeps only the best maxResults matches across drives", async () => {
+    const results = await searchDrivesAsync("clip", 2, { source: createSource() });
+    assert.equal(results.length, 2);
+  });
+
+  it("applies drive, extension and path filters", async () => {
+    const source = createSource();
+    assert.deepEqual(describeResults(await searchDrivesAsync('clip drive:"backup"', 10, { source })), [
+      "Backup:clip001.mov",
+      "Backup:clip notes.txt",
+    ]);
+    assert.deepEqual(describeResults(await searchDrivesAsync("ext:mov -path:clients", 10, { source })), [
+      "Backup:clip001.mov",
+      "Unknown Drive:stray.mov",
+    ]);
+  });
+
+  it("names drives missing from the preferences", async () => {
+    const [result] = await searchDrivesAsync("stray", 10, { source: createSource() });
+    assert.equal(result.driveUUID, UNKNOWN_UUID);
+    assert.equal(result.driveName, "Unknown Drive");
+  });
+
+  it("returns folders with their descendant counts, or only files, by scope", async () => {
+    const source = createSource();
+    const folders = await searchDrivesAsync("acme", 10, { source, scope: "folders" });
+    assert.deepEqual(describeResults(folders), ["Archive 03:Clients/Acme"]);
+    assert.equal(folders[0].kind, "folder");
+    assert.equal(folders[0].descendantCount, 5);
+
+    const files = await searchDrivesAsync("ext:mov,mp4", 10, { source, scope: "files" });
+    assert.ok(files.length > 0 && files.every((result) => result.kind === "file"));
+  });
+
+  it("restricts results to a file category", async () => {
+    const results = await searchDrivesAsync("path:clients", 10, { source: createSource(), category: "audio" });
+    assert.deepEqual(describeResults(results), ["Archive 03:Clients/Acme/score.wav"]);
+  });
+
+  it("boosts recently opened files unless the weight is 0", async () => {
+    const source = createSource();
+    recordFileAccess(ARCHIVE_UUID, "Clients/Acme/clip002.mov", source);
+    recordFileAccess(ARCHIVE_UUID, "Clients/Acme/clip002.mov", source);
+
+    const [boosted] = await searchDrivesAsync("clip00", 10, { source });
+    assert.equal(boosted.entry.relativePath, "Clients/Acme/clip002.mov");
+    assert.ok(boosted.frecencyBoost! > 0);
+
+    const unboosted = await searchDrivesAsync("clip00", 10, { source, frecencyWeight: 0 });
+    assert.ok(unboosted.every((result) => result.frecencyBoost === undefined));
+  });
+
+  it("finds tagged entries and skips drives without tags", async () => {
+    const source = createSource();
+    setTags(ARCHIVE_UUID, "Clients/Acme/clip002.mov", ["Masters"], "file", source);
+
+    assert.deepEqual(describeResults(await searchDrivesAsync("tag:masters", 10, { source })), [
+      "Archive 03:Clients/Acme/clip002.mov",
+    ]);
+  });
+
+  it("reports progress once per drive", async () => {
+    const progress: number[] = [];
+    const onProgress = (results: SearchResult[]) => progress.push(results.length);
+    await searchDrivesAsync("clip", 10, { source: createSource(), onProgress });
+    assert.equal(progress.length, 3);
+  });
+
+  it("returns nothing for an empty query", async () => {
+    assert.deepEqual(await searchDrivesAsync("  ", 10, { source: createSource() }), []);
+  });
+
+  it("rejects when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("stale"));
+    await assert.rejects(searchDrivesAsync("clip", 10, { source: createSource(), signal: controller.signal }), /stale/);
+  });
+
+  it("searches a catalog folder on disk", async () => {
+    const source = new FileSystemDataSource({
+      rootDir: fixturePath("catalog"),
+      supportDir: support,
+      cacheDir: null,
+      historyDir: null,
+    });
+    const [result] = await searchDrivesAsync("final cut", 10, { source });
+
+    assert.equal(result.entry.relativePath, "Projects/final_cut.mov");
+    assert.equal(result.driveName, "Archive 03");
+    assert.ok(result.frecencyBoost! > 0);
+  });
+});
+
+describe("click history", () => {
+  it("counts repeated accesses of the same file", () => {
+    const source = new MemoryDataSource();
+    recordFileAccess(ARCHIVE_UUID, "a.mov", source);
+    recordFileAccess(ARCHIVE_UUID, "a.mov", source);
+    recordFileAccess(BACKUP_UUID, "a.mov", source);
+
+    const counts = loadClickHistory(source).files.map((file) => [file.driveUUID, file.accessCount]);
+    assert.deepEqual(counts.sort(), [
+      [ARCHIVE_UUID, 2],
+      [BACKUP_UUID, 1],
+    ]);
+  });
+
+  it("reads DriveBuddy's click history and treats unreadable history as empty", (t) => {
+    const catalog = new FileSystemDataSource({ rootDir: fixturePath("catalog"), supportDir: support });
+    assert.equal(loadClickHistory(catalog).files[0].accessCount, 3);
+
+    const logged = t.mock.method(console, "error", () => undefined);
+    assert.deepEqual(loadClickHistory(new MemoryDataSource({ clickHistory: "{" })), { files: [] });
+    assert.equal(logged.mock.callCount(), 1);
+  });
+
+  it("lists recent files of known drives, newest first", () => {
+    const source = createSource();
+    const files = [
+      { driveUUID: ARCHIVE_UUID, relativePath: "Clients/old.mov", lastAccessed: 1, accessCount: 1 },
+      { driveUUID: UNKNOWN_UUID, relativePath: "stray.mov", lastAccessed: 3, accessCount: 1 },
+      { driveUUID: BACKUP_UUID, relativePath: "clip001.mov", lastAccessed: 2, accessCount: 1 },
+    ];
+    source.writeClickHistory(JSON.stringify({ files }));
+
+    assert.deepEqual(describeResults(getRecentFiles(10, source)), ["Backup:clip001.mov", "Archive 03:Clients/old.mov"]);
+    assert.deepEqual(describeResults(getRecentFiles(1, source)), []);
+    assert.equal(getRecentFiles(10, source)[0].entry.name, "clip001.mov");
+  });
+});
+
+describe("loadDriveInfo", () => {
+  it("reloads drives when the preferences change", () => {
+    const source = new MemoryDataSource();
+    assert.equal(loadDriveInfo(source).size, 0);
+
+    source.setPreferences(readFileSync(fixturePath("plist", "DriveBuddy.binary.plist")));
+    assert.deepEqual([...loadDriveInfo(source).keys()].sort(), [ARCHIVE_UUID, BACKUP_UUID]);
+
+    source.setPreferences(readFileSync(fixturePath("plist", "NoDriveLog.xml.plist")));
+    assert.equal(loadDriveInfo(source).size, 0);
+  });
+});
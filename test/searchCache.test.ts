@@ -0,0 +1,220 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileSystemDataSource, MemoryDataSource } from "../src/dataSource";
+import { calculatePathMatchScore } from "../src/drivebuddy";
+import {
+  SearchCache,
+  buildSearchCache,
+  getEntryKind,
+  getSearchCache,
+  queryCandidates,
+  readSearchCache,
+  writeSearchCache,
+} from "../src/searchCache";
+
+const INDEX_FILE = "QUFBQS0xMTEx.json";
+const root = mkdtempSync(join(tmpdir(), "search-cache-test-"));
+
+after(() => rmSync(root, { recursive: true, force: true }));
+
+const PATHS = [
+  "Clients",
+  "Clients/ACME",
+  "Clients/ACME/2023",
+  "Clients/ACME/2023/Rushes",
+  "Clients/ACME/2023/Rushes/clip001.mov",
+  "Clients/ACME/2023/Rushes/clip002.mov",
+  "Clients/Café Noir/Résumé final.pdf",
+  "Projects/my_project_final.prproj",
+  "Projects/MyProjectFinal-v2.aep",
+  "Projects/notes.txt",
+  "Audio/score (mix 3).wav",
+  "trash.txt",
+];
+
+function index(generatedAt: number, paths: string[] = PATHS) {
+  const entries = paths.map((relativePath) => ({ name: relativePath.split("/").pop(), relativePath }));
+  return { generatedAt, entries };
+}
+
+function sourceWith(content: object) {
+  return new MemoryDataSource({ indexes: { [INDEX_FILE]: content } });
+}
+
+function matchingPaths(cache: SearchCache, query: string): string[] {
+  return cache.paths.filter((path) => calculatePathMatchScore(query, path).score > 60);
+}
+
+describe("writeSearchCache and readSearchCache", () => {
+  it("round-trip every field", async () => {
+    const cache = await buildSearchCache(sourceWith(index(750000000.5)), INDEX_FILE);
+    const cachePath = join(root, "round-trip.trigrams");
+    writeSearchCache(cachePath, cache);
+
+    assert.deepEqual(readSearchCache(cachePath), cache);
+    assert.equal(existsSync(`${cachePath}.tmp`), false);
+  });
+
+  it("round-trip an empty index without a generatedAt", async () => {
+    const cache = await buildSearchCache(sourceWith({ entries: [] }), INDEX_FILE);
+    const cachePath = join(root, "empty.trigrams");
+    writeSearchCache(cachePath, cache);
+
+    assert.deepEqual(readSearchCache(cachePath), cache);
+    assert.equal(cache.generatedAt, null);
+  });
+
+  it("returns null for missing files and other formats", () => {
+    const otherPath = join(root, "other.trigrams");
+    writeFileSync(otherPath, "not a cache");
+    assert.equal(readSearchCache(join(root, "missing.trigrams")), null);
+    assert.equal(readSearchCache(otherPath), null);
+  });
+});
+
+describe("buildSearchCache", () => {
+  it("infers folders and counts their descendants", async () => {
+    const cache = await buildSearchCache(sourceWith(index(1)), INDEX_FILE);
+    const kindOf = (path: string) => getEntryKind(cache, cache.paths.indexOf(path));
+    const countOf = (path: string) => cache.descendants[cache.paths.indexOf(path)];
+
+    assert.equal(kindOf("Clients/ACME/2023/Rushes"), "folder");
+    assert.equal(countOf("Clients/ACME/2023/Rushes"), 2);
+    assert.equal(countOf("Clients"), 6);
+    assert.equal(kindOf("Projects/notes.txt"), "file");
+    assert.equal(countOf("Projects/notes.txt"), 0);
+  });
+});
+
+describe("getEntryKind", () => {
+  async function kindsOf(entries: object[]) {
+    const cache = await buildSearchCache(sourceWith({ entries }), INDEX_FILE);
+    return cache.paths.map((path, id) => `${path}:${getEntryKind(cache, id)}:${cache.descendants[id]}`);
+  }
+
+  it("infers folders from nested paths when the index has no type field", async () => {
+    const entries = ["A", "A/B", "A/B/c.mov", "A/B/D", "A/B/D/e.mov", "A/f.mov", "empty"].map((relativePath) => ({
+      name: relativePath.split("/").pop(),
+      relativePath,
+    }));
+
+    assert.deepEqual(await kindsOf(entries), [
+      "A:folder:5",
+      "A/B:folder:3",
+      "A/B/c.mov:file:0",
+      "A/B/D:folder:1",
+      "A/B/D/e.mov:file:0",
+      "A/f.mov:file:0",
+      "empty:file:0",
+    ]);
+  });
+
+  it("trusts isDirectory, including for empty folders and files named like folders", async () => {
+    const entries = [
+      { name: "Empty", relativePath: "Empty", isDirectory: true },
+      { name: "Bundle", relativePath: "Bundle", isDirectory: false },
+      { name: "x.txt", relativePath: "Bundle/x.txt", isDirectory: false },
+    ];
+
+    assert.deepEqual(await kindsOf(entries), ["Empty:folder:0", "Bundle:file:0", "Bundle/x.txt:file:0"]);
+  });
+
+  it("counts entries below folders that have no entry of their own", async () => {
+    const entries = ["Top", "Top/Missing/Deeper/a.mov", "Top/Missing/b.mov"].map((relativePath) => ({
+      name: relativePath.split("/").pop(),
+      relativePath,
+    }));
+
+    assert.deepEqual((await kindsOf(entries))[0], "Top:folder:2");
+  });
+});
+
+describe("queryCandidates", () => {
+  const queries = [
+    "clip001",
+    "clip",
+    "cl",
+    "resume",
+    "cafe noir",
+    "mpf",
+    "my project final",
+    "myprojectfinal",
+    "project final v2",
+    "acme 2023 rushes",
+    "acme clip002",
+    "clpi001",
+    "score mix",
+    "trsh",
+    "notes projects",
+  ];
+
+  for (const query of queries) {
+    it(`includes every entry that scoring matches for "${query}"`, async () => {
+      const cache = await buildSearchCache(sourceWith(index(1)), INDEX_FILE);
+      const candidates = new Set(queryCandidates(cache, query).map((id) => cache.paths[id]));
+      const missing = matchingPaths(cache, query).filter((path) => !candidates.has(path));
+      assert.deepEqual(missing, []);
+    });
+  }
+
+  it("skips unrelated entries", async () => {
+    const cache = await buildSearchCache(sourceWith(index(1)), INDEX_FILE);
+    const candidates = queryCandidates(cache, "clip001").map((id) => cache.paths[id]);
+    assert.ok(candidates.includes("Clients/ACME/2023/Rushes/clip001.mov"));
+    assert.ok(!candidates.includes("Projects/notes.txt"));
+  });
+});
+
+describe("getSearchCache", () => {
+  it("reuses the cache while the index's mtime and size are unchanged", async () => {
+    const source = sourceWith(index(1));
+    const cache = await getSearchCache(source, INDEX_FILE);
+    assert.equal(await getSearchCache(source, INDEX_FILE), cache);
+  });
+
+  it("re-stamps the cache when only the mtime changed and generatedAt is the same", async () => {
+    const source = sourceWith(index(1));
+    const cache = await getSearchCache(source, INDEX_FILE);
+    source.setIndex(INDEX_FILE, index(1));
+
+    const restamped = await getSearchCache(source, INDEX_FILE);
+    assert.notEqual(restamped.sourceMtimeMs, cache.sourceMtimeMs);
+    assert.equal(restamped.sourceMtimeMs, source.statIndexFile(INDEX_FILE)!.mtimeMs);
+    assert.equal(restamped.trigrams, cache.trigrams);
+  });
+
+  it("rebuilds when generatedAt or the size changes", async () => {
+    const source = sourceWith(index(1));
+    const cache = await getSearchCache(source, INDEX_FILE);
+
+    // Same length as the original, so only generatedAt tells the scans apart
+    source.setIndex(INDEX_FILE, index(2));
+    const rescanned = await getSearchCache(source, INDEX_FILE);
+    assert.equal(rescanned.sourceSize, cache.sourceSize);
+    assert.notEqual(rescanned.trigrams, cache.trigrams);
+    assert.equal(rescanned.generatedAt, 2);
+
+    source.setIndex(INDEX_FILE, index(2, [...PATHS, "new.mov"]));
+    const grown = await getSearchCache(source, INDEX_FILE);
+    assert.ok(grown.paths.includes("new.mov"));
+  });
+
+  it("persists caches in the source's cache folder", async () => {
+    const rootDir = join(root, "catalog");
+    mkdirSync(join(rootDir, "SearchIndexes"), { recursive: true });
+    writeFileSync(join(rootDir, "SearchIndexes", INDEX_FILE), JSON.stringify(index(1)));
+    const cacheDir = join(root, "cache");
+    const source = new FileSystemDataSource({ rootDir, supportDir: root, cacheDir, historyDir: null });
+
+    const cache = await getSearchCache(source, INDEX_FILE);
+    assert.deepEqual(readSearchCache(join(cacheDir, "QUFBQS0xMTEx.trigrams")), cache);
+
+    writeFileSync(join(rootDir, "SearchIndexes", INDEX_FILE), JSON.stringify(index(1, ["only.mov"])));
+    const rebuilt = await getSearchCache(source, INDEX_FILE);
+    assert.deepEqual(rebuilt.paths, ["only.mov"]);
+    assert.deepEqual(readSearchCache(join(cacheDir, "QUFBQS0xMTEx.trigrams")), rebuilt);
+  });
+});
@@ -0,0 +1,91 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileSystemDataSource, MemoryDataSource } from "../src/dataSource";
+import {
+  DEFAULT_SNAPSHOT_RETENTION,
+  listSnapshotDrives,
+  listSnapshots,
+  loadSnapshot,
+  pruneSnapshots,
+  recordSnapshot,
+} from "../src/snapshots";
+
+const root = mkdtempSync(join(tmpdir(), "snapshots-test-"));
+let folders = 0;
+
+after(() => rmSync(root, { recursive: true, force: true }));
+
+function historySource(snapshotRetention: number | null) {
+  const supportDir = join(root, `support-${++folders}`);
+  return new FileSystemDataSource({ rootDir: join(root, "catalog"), supportDir, snapshotRetention });
+}
+
+async function recordScans(source: FileSystemDataSource | MemoryDataSource, count: number) {
+  for (let scan = 1; scan <= count; scan++) {
+    await recordSnapshot(source, "AAAA-1111", 700000000 + scan, [`scan-${scan}.mov`, "shared.mov"]);
+  }
+}
+
+describe("recordSnapshot", () => {
+  it("keeps more scans than the default when the retention allows it", async () => {
+    const source = historySource(30);
+    await recordScans(source, DEFAULT_SNAPSHOT_RETENTION + 5);
+    assert.equal(listSnapshots(source, "AAAA-1111").length, DEFAULT_SNAPSHOT_RETENTION + 5);
+  });
+
+  it("deletes the oldest scans beyond the retention", async () => {
+    const source = historySource(3);
+    await recordScans(source, 5);
+    const kept = listSnapshots(source, "AAAA-1111").map((info) => info.generatedAt);
+    assert.deepEqual(kept, [700000005, 700000004, 700000003]);
+  });
+
+  it("never prunes when the source has no retention", async () => {
+    const source = historySource(null);
+    await recordScans(source, DEFAULT_SNAPSHOT_RETENTION + 2);
+    assert.equal(listSnapshots(source, "AAAA-1111").length, DEFAULT_SNAPSHOT_RETENTION + 2);
+  });
+
+  it("round-trips sorted paths and skips scans already recorded", async () => {
+    const source = historySource(null);
+    const paths = ['b/say "hi".txt', "a/Café.mov", "a/clip.mov"];
+    await Promise.all([recordSnapshot(source, "AAAA-1111", 1, paths), recordSnapshot(source, "AAAA-1111", 1, [])]);
+    await recordSnapshot(source, "AAAA-1111", 1, ["other.mov"]);
+
+    const snapshot = loadSnapshot(source, "AAAA-1111", 1)!;
+    assert.deepEqual(snapshot.paths, [...paths].sort());
+    assert.equal(snapshot.driveUUID, "AAAA-1111");
+    assert.deepEqual(listSnapshotDrives(source), ["AAAA-1111"]);
+  });
+
+  it("keeps snapshots in memory for sources without a history folder", async () => {
+    const source = new MemoryDataSource({ snapshotRetention: 2 });
+    await recordScans(source, 4);
+    const kept = listSnapshots(source, "AAAA-1111").map((info) => info.generatedAt);
+    assert.deepEqual(kept, [700000004, 700000003]);
+    assert.deepEqual(loadSnapshot(source, "AAAA-1111", 700000004)!.paths, ["scan-4.mov", "shared.mov"]);
+    assert.equal(loadSnapshot(source, "AAAA-1111", 700000001), null);
+  });
+});
+
+describe("pruneSnapshots", () => {
+  it("prunes every drive to the given count", async () => {
+    const source = historySource(null);
+    await recordScans(source, 4);
+    await recordSnapshot(source, "BBBB-2222", 1, ["x"]);
+
+    pruneSnapshots(source, 2);
+    assert.equal(listSnapshots(source, "AAAA-1111").length, 2);
+    assert.equal(listSnapshots(source, "BBBB-2222").length, 1);
+  });
+
+  it("ignores an invalid count", async () => {
+    const source = historySource(null);
+    await recordScans(source, 3);
+    pruneSnapshots(source, NaN);
+    assert.equal(listSnapshots(source, "AAAA-1111").length, 3);
+  });
+});
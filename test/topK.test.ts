@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TopK } from "../src/topK";
+
+const descending = (a: number, b: number) => b - a;
+
+describe("TopK", () => {
+  it("keeps the best items in ranked order", () => {
+    const top = new TopK(3, descending);
+    [5, 1, 9, 7, 3, 9, 2].forEach((n) => top.push(n));
+    assert.deepEqual(top.toSortedArray(), [9, 9, 7]);
+    assert.equal(top.isFull, true);
+    assert.equal(top.peekWorst(), 7);
+  });
+
+  it("rejects items that can't make the cut", () => {
+    const top = new TopK(2, descending);
+    top.push(5);
+    top.push(4);
+    assert.equal(top.push(4), false);
+    assert.equal(top.push(6), true);
+    assert.deepEqual(top.toSortedArray(), [6, 5]);
+  });
+
+  it("matches a full sort on many items", () => {
+    const items = Array.from({ length: 1000 }, (_, i) => (i * 7919) % 1009);
+    const top = new TopK(50, descending);
+    items.forEach((n) => top.push(n));
+    assert.deepEqual(top.toSortedArray(), [...items].sort(descending).slice(0, 50));
+  });
+
+  it("requires a positive whole capacity", () => {
+    for (const capacity of [0, -1, 2.5, NaN, Infinity]) {
+      assert.throws(() => new TopK(capacity, descending), RangeError, String(capacity));
+    }
+  });
+});